@@ -1,17 +1,43 @@
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { VideoList } from './components/VideoList';
 import { VideoPlayer } from './components/VideoPlayer';
-import { VideoFile, VideoPreferences, GlobalSettings, NavTab, ToastMessage, CachedSheetData } from './types';
-import { fetchSheetData } from './utils/googleSheet';
+import { VideoFile, VideoPreferences, GlobalSettings, NavTab, ToastMessage, SourceCacheEntry, SourceResult, DownloadProgress, OfflineMedia, SubtitleTrack, SubtitleStyle, Playlist, WatchProgress, Marker, LoopRange, AudioEffects, VideoAdjustments, BackupData, RestoreMode } from './types';
+import { listCatalogSources } from './utils/sourceProviders';
+import { urlVideoId, mergeDuplicates, legacyIdMap, rekeyIds, rekeyRecord, migrateSavedStreams } from './utils/videoIds';
+import { readSourceCache, writeSourceCache, isStale, nextCacheEntry } from './utils/sourceCache';
+import { probeStreamMimeType } from './utils/streaming';
+import { 
+  ImportedFile, StoredLocalFile, toLocalVideo, filesFromInput, supportsFileHandles, supportsDirectoryPicker, 
+  pickLocalFiles, pickLocalFolder, saveLocalFiles, loadLocalLibrary, requestLocalAccess, removeLocalFile, clearLocalLibrary 
+} from './utils/localLibrary';
+import { normalizeProgressHistory, updateProgress, resolveStartTime } from './utils/progress';
+import { DEFAULT_SETTINGS, HISTORY_LIMIT } from './constants';
+import { canCaptureFrames, buildStoryboard, removeCachedFrames, clearCachedFrames, rekeyCachedFrames } from './utils/thumbnails';
+import { loadSavedSubtitles, saveSubtitles, removeSavedSubtitles, rekeySavedSubtitles, clearSavedSubtitles } from './utils/subtitles';
+import { startDownload, pauseDownload, resumeDownload, cancelDownload, onDownloadProgress, restorePartialDownloads, listOfflineMedia, rekeyOfflineMedia, loadOfflineUrl, removeOfflineMedia, clearOfflineMedia } from './utils/downloads';
+import { moveItem, shuffleAround, unshuffle, insertAfter, nextInQueue, prevInQueue } from './utils/queue';
 import { Icons } from './components/Icons';
+import { UpdatePrompt } from './components/UpdatePrompt';
+import { consumeLaunchQueue, readSharedPayload } from './utils/launch';
+import { createBackup, backupFileName, parseBackup, mergeBackup } from './utils/backup';
+import { resolveBindings } from './utils/shortcuts';
 
 function App() {
   const [localVideos, setLocalVideos] = useState<VideoFile[]>([]);
-  const [sheetVideos, setSheetVideos] = useState<VideoFile[]>([]);
+  const [pendingLocalFiles, setPendingLocalFiles] = useState<StoredLocalFile[]>([]); // Handles awaiting read permission
+  const [sourceCache, setSourceCache] = useState<Record<string, SourceCacheEntry>>({}); // Keyed by source URL
   const [loadingSheets, setLoadingSheets] = useState(false);
+  const [refreshingSources, setRefreshingSources] = useState<string[]>([]);
+  const [refreshToken, setRefreshToken] = useState(0);
+  const [downloads, setDownloads] = useState<Record<string, DownloadProgress>>({}); // In progress, paused or failed
+  const [offlineMedia, setOfflineMedia] = useState<OfflineMedia[]>([]);
+  const [offlineSource, setOfflineSource] = useState<{ id: string; url: string } | null>(null);
+  const forceRefreshRef = useRef(false);
+  const rekeyedCachesRef = useRef(new Set<string>()); // Old ids whose IndexedDB data was already moved
   const [toasts, setToasts] = useState<ToastMessage[]>([]);
   
   const [currentVideo, setCurrentVideo] = useState<VideoFile | null>(null);
+  const [playerMinimized, setPlayerMinimized] = useState(false);
   
   // Safe JSON parsing helper
   const getStoredItem = <T,>(key: string, defaultValue: T): T => {
@@ -27,26 +53,25 @@ function App() {
   // State Management
   const [favorites, setFavorites] = useState<string[]>(() => getStoredItem('affi_favorites', []));
   const [history, setHistory] = useState<string[]>(() => getStoredItem('affi_history', [])); // List of IDs
-  const [progressHistory, setProgressHistory] = useState<Record<string, number>>(() => getStoredItem('affi_progress', {}));
+  const [progressHistory, setProgressHistory] = useState<Record<string, WatchProgress>>(() => normalizeProgressHistory(getStoredItem('affi_progress', {})));
   const [videoPrefs, setVideoPrefs] = useState<Record<string, VideoPreferences>>(() => getStoredItem('affi_prefs', {}));
+  const [playlists, setPlaylists] = useState<Playlist[]>(() => getStoredItem('affi_playlists', []));
+  const [bookmarks, setBookmarks] = useState<Record<string, Marker[]>>(() => getStoredItem('affi_bookmarks', {})); // Bookmarks and imported chapters per video id
+
+  // Play Queue (ids), seeded from the list the user started playing from
+  const [queue, setQueue] = useState<string[]>([]);
+  const [shuffle, setShuffle] = useState(false);
+  const [repeatAll, setRepeatAll] = useState(false);
+  const unshuffledQueueRef = useRef<string[]>([]);
+  // Side-loaded subtitle tracks per video, read from IndexedDB when the video is opened
+  const [loadedSubtitles, setLoadedSubtitles] = useState<Record<string, SubtitleTrack[]>>({});
   
   const [activeTab, setActiveTab] = useState<NavTab>('library');
 
   // Global Settings with Defaults
   const [settings, setSettings] = useState<GlobalSettings>(() => {
-    const defaults: GlobalSettings = {
-      themeColor: '#BB86FC',
-      seekTime: 10,
-      defaultSpeed: 1.0,
-      autoPlayNext: true,
-      performanceMode: false,
-      enableOnlineDB: true,
-      googleSheetUrls: [],
-      savedStreams: [],
-      viewMode: 'grid'
-    };
     const saved = getStoredItem<Partial<GlobalSettings>>('affi_global_settings', {});
-    return { ...defaults, ...saved };
+    return { ...DEFAULT_SETTINGS, ...saved, savedStreams: migrateSavedStreams(saved.savedStreams || []) };
   });
 
   // Persistence Effects
@@ -54,6 +79,8 @@ function App() {
   useEffect(() => { localStorage.setItem('affi_history', JSON.stringify(history)); }, [history]);
   useEffect(() => { localStorage.setItem('affi_progress', JSON.stringify(progressHistory)); }, [progressHistory]);
   useEffect(() => { localStorage.setItem('affi_prefs', JSON.stringify(videoPrefs)); }, [videoPrefs]);
+  useEffect(() => { localStorage.setItem('affi_playlists', JSON.stringify(playlists)); }, [playlists]);
+  useEffect(() => { localStorage.setItem('affi_bookmarks', JSON.stringify(bookmarks)); }, [bookmarks]);
   useEffect(() => { localStorage.setItem('affi_global_settings', JSON.stringify(settings)); }, [settings]);
 
   // Theme Injection
@@ -70,90 +97,299 @@ function App() {
     }, 3000);
   };
 
-  // Fetch Google Sheets Data with Smart Caching
+  // Merge local videos, skipping ids we already have
+  const appendLocalVideos = (videos: VideoFile[]) => {
+    setLocalVideos(prev => {
+      const existingIds = new Set(prev.map(v => v.id));
+      const filtered = videos.filter(v => !existingIds.has(v.id));
+      return [...prev, ...filtered];
+    });
+  };
+
+  // Restore persisted local imports
   useEffect(() => {
-    const loadSheets = async () => {
-      if (!settings.enableOnlineDB || settings.googleSheetUrls.length === 0) {
-        setSheetVideos([]);
-        return;
-      }
+    loadLocalLibrary()
+      .then(({ videos, needsPermission }) => {
+        appendLocalVideos(videos);
+        setPendingLocalFiles(needsPermission);
+      })
+      .catch(e => console.warn("Could not restore local library", e));
+  }, []);
 
-      setLoadingSheets(true);
-      let allVideos: VideoFile[] = [];
-      let hasError = false;
-
-      // Check Cache Strategy (1 hour cache)
-      const CACHE_KEY = 'affi_sheet_cache';
-      const CACHE_DURATION = 3600 * 1000; 
-      const cached = getStoredItem<CachedSheetData | null>(CACHE_KEY, null);
-      
-      const shouldFetch = !cached || (Date.now() - cached.timestamp > CACHE_DURATION) || (cached.data.length === 0 && settings.googleSheetUrls.length > 0);
-
-      if (!shouldFetch && cached) {
-         setSheetVideos(cached.data);
-         setLoadingSheets(false);
-         // Background refresh if needed could go here
-         return;
-      }
-      
-      for (const url of settings.googleSheetUrls) {
-        try {
-            const videos = await fetchSheetData(url);
-            if (videos.length > 0) {
-                allVideos = [...allVideos, ...videos];
-            }
-        } catch (e) {
-            console.error(e);
-            hasError = true;
-        }
+  // Build seek-preview storyboards for local files in the background, one video at a time
+  useEffect(() => {
+    let cancelled = false;
+    const buildAll = async () => {
+      for (const video of localVideos) {
+        if (cancelled) return;
+        if (!canCaptureFrames(video)) continue;
+        await buildStoryboard(video).catch(e => console.warn(`Could not build storyboard for ${video.name}`, e));
       }
+    };
+    buildAll();
+    return () => { cancelled = true; };
+  }, [localVideos]);
+
+  // Remote catalogs: cached per source, shown immediately and revalidated in the background once stale
+  useEffect(() => {
+    if (!settings.enableOnlineDB) {
+      setSourceCache({});
+      return;
+    }
+
+    let cancelled = false;
+    const force = forceRefreshRef.current;
+    forceRefreshRef.current = false;
 
-      if (hasError && allVideos.length === 0) {
-          addToast("Failed to load some online databases", "error");
-      } else if (allVideos.length > 0) {
-          localStorage.setItem(CACHE_KEY, JSON.stringify({ timestamp: Date.now(), data: allVideos }));
+    const sources = listCatalogSources(settings);
+    const stored = readSourceCache();
+    const cache: Record<string, SourceCacheEntry> = {};
+    sources.forEach(s => {
+      if (stored[s.url]?.signature === s.signature) cache[s.url] = stored[s.url];
+    });
+    writeSourceCache(cache);
+    setSourceCache(cache);
+
+    const due = sources.filter(s => force || isStale(cache[s.url], settings.sourceCacheTtl));
+    if (due.length === 0) return;
+
+    // The skeleton only shows for sources with nothing cached yet
+    setLoadingSheets(due.some(s => !cache[s.url]));
+    setRefreshingSources(due.map(s => s.url));
+
+    Promise.all(due.map(async source => {
+      let outcome: SourceResult | Error;
+      try {
+        outcome = await source.load();
+      } catch (e) {
+        console.error(e);
+        outcome = e instanceof Error ? e : new Error(String(e));
       }
-      
-      setSheetVideos(allVideos);
+      if (cancelled) return null;
+      const entry = nextCacheEntry(cache[source.url], source.signature, outcome);
+      setSourceCache(prev => {
+        const next = { ...prev, [source.url]: entry };
+        writeSourceCache(next);
+        return next;
+      });
+      setRefreshingSources(prev => prev.filter(url => url !== source.url));
+      return entry;
+    })).then(entries => {
+      if (cancelled) return;
+      setLoadingSheets(false);
+      const fetched = entries.filter((e): e is SourceCacheEntry => !!e);
+      if (fetched.some(e => e.error)) addToast("Failed to load some online databases", "error");
+      const skippedCount = fetched.reduce((sum, e) => sum + e.skipped.length, 0);
+      if (skippedCount > 0) addToast(`Skipped ${skippedCount} invalid catalog entries, see Settings`, "error");
+    });
+
+    return () => {
+      cancelled = true;
       setLoadingSheets(false);
+      setRefreshingSources([]);
     };
+  }, [settings.googleSheetUrls, settings.enableOnlineDB, settings.sheetColumnMappings, settings.sheetAllTabs, settings.googleApiKey, settings.remoteSources, settings.sourceCacheTtl, refreshToken]);
 
-    loadSheets();
-  }, [settings.googleSheetUrls, settings.enableOnlineDB]);
+  const sheetVideos = useMemo(() => Object.values<SourceCacheEntry>(sourceCache).flatMap(entry => entry.videos), [sourceCache]);
 
   // Merge videos
   const allVideos = useMemo(() => {
-    return [...localVideos, ...settings.savedStreams, ...sheetVideos];
+    return mergeDuplicates([...localVideos, ...settings.savedStreams, ...sheetVideos]);
   }, [localVideos, settings.savedStreams, sheetVideos]);
 
+  // Videos still carrying ids from before content ids (sheet rows, saved streams, imported files): move everything stored under those ids
+  useEffect(() => {
+    const renames = legacyIdMap(allVideos);
+    if (renames.size === 0) return;
+    setFavorites(prev => rekeyIds(prev, renames));
+    setHistory(prev => rekeyIds(prev, renames));
+    setQueue(prev => rekeyIds(prev, renames));
+    setProgressHistory(prev => rekeyRecord(prev, renames));
+    setVideoPrefs(prev => rekeyRecord(prev, renames));
+    setBookmarks(prev => rekeyRecord(prev, renames));
+    setPlaylists(prev => {
+      const next = prev.map(p => {
+        const videoIds = rekeyIds(p.videoIds, renames);
+        return videoIds === p.videoIds ? p : { ...p, videoIds };
+      });
+      return next.some((p, i) => p !== prev[i]) ? next : prev;
+    });
+    setCurrentVideo(prev => prev && renames.has(prev.id) ? allVideos.find(v => v.id === renames.get(prev.id)) || prev : prev);
+
+    // Cached frames, waveforms, subtitles and downloads in IndexedDB, once per old id and session
+    const moves = Array.from(renames).filter(([from]) => !rekeyedCachesRef.current.has(from));
+    if (moves.length === 0) return;
+    moves.forEach(([from]) => rekeyedCachesRef.current.add(from));
+    Promise.all(moves.map(async ([from, to]) => {
+      await rekeyCachedFrames(from, to);
+      await rekeySavedSubtitles(from, to);
+      return rekeyOfflineMedia(from, to);
+    }))
+      .then(async moved => {
+        if (!moved.some(Boolean)) return;
+        setOfflineMedia(await listOfflineMedia());
+        const partials = await restorePartialDownloads();
+        setDownloads(prev => ({
+          ...Object.fromEntries(Object.entries(prev).filter(([id]) => !renames.has(id))),
+          ...Object.fromEntries(partials.map(p => [p.id, p]))
+        }));
+      })
+      .catch(e => console.warn("Could not migrate cached data", e));
+  }, [allVideos]);
+
+  const addLocalFiles = async (entries: ImportedFile[]): Promise<VideoFile[]> => {
+    if (entries.length === 0) return [];
+    const videos = entries.map(({ file, relativePath }) => toLocalVideo(file, relativePath));
+    appendLocalVideos(videos);
+    addToast(`Imported ${entries.length} videos`, 'success');
+
+    const failed = await saveLocalFiles(entries);
+    if (failed > 0) addToast(`${failed} files could not be saved and will be gone after a reload`, 'error');
+    return videos;
+  };
+
+  // Files opened or shared from the OS join the library and start playing straight away
+  const openLaunchedFiles = async (entries: ImportedFile[]) => {
+    const videos = await addLocalFiles(entries);
+    if (videos.length > 0) handleSelectVideo(videos[0], videos);
+  };
+  // The launch consumer is registered once, so it goes through this to reach the current render's state
+  const openLaunchedFilesRef = useRef(openLaunchedFiles);
+  openLaunchedFilesRef.current = openLaunchedFiles;
+
+  useEffect(() => {
+    consumeLaunchQueue(entries => openLaunchedFilesRef.current(entries), count => addToast(`Could not open ${count} ${count === 1 ? 'file' : 'files'}`, 'error'));
+    readSharedPayload()
+      .then(payload => {
+        if (!payload) return;
+        if (payload.files.length > 0) openLaunchedFiles(payload.files.map(file => ({ file })));
+        else if (payload.url) handleAddNetworkStream(payload.url, payload.title || '');
+        else addToast("Nothing playable was shared", "info");
+      })
+      .catch(e => console.warn("Could not read shared content", e));
+  }, []);
+
   const handleImport = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
-      const newVideos: VideoFile[] = Array.from(e.target.files).map((file: File) => ({
-        id: `${file.name}-${file.lastModified}`,
-        file,
-        name: file.name,
-        url: URL.createObjectURL(file),
-        size: file.size,
-        type: file.type,
-        lastModified: file.lastModified,
-        sourceType: 'local'
-      }));
-      setLocalVideos(prev => {
-        const existingIds = new Set(prev.map(v => v.id));
-        const filtered = newVideos.filter(v => !existingIds.has(v.id));
-        return [...prev, ...filtered];
-      });
-      addToast(`Imported ${newVideos.length} videos`, 'success');
+      const entries = filesFromInput(Array.from(e.target.files));
+      if (entries.length === 0) addToast("No supported media found", "info");
+      addLocalFiles(entries);
+      e.target.value = '';
+    }
+  };
+
+  const handlePickFiles = async () => {
+    try {
+      await addLocalFiles(await pickLocalFiles());
+    } catch (e) {
+      console.error(e);
+      addToast("Could not open files", "error");
+    }
+  };
+
+  const handlePickFolder = async () => {
+    try {
+      const entries = await pickLocalFolder();
+      if (entries.length === 0) addToast("No supported media found", "info");
+      await addLocalFiles(entries);
+    } catch (e) {
+      console.error(e);
+      addToast("Could not read folder", "error");
     }
   };
+  // Offline downloads
+  useEffect(() => {
+    listOfflineMedia().then(setOfflineMedia).catch(e => console.warn("Could not list offline videos", e));
+    restorePartialDownloads()
+      .then(list => setDownloads(prev => ({ ...Object.fromEntries(list.map(p => [p.id, p])), ...prev })))
+      .catch(e => console.warn("Could not restore downloads", e));
+    return onDownloadProgress(progress => {
+      if (progress.status !== 'done') {
+        setDownloads(prev => ({ ...prev, [progress.id]: progress }));
+        return;
+      }
+      setDownloads(({ [progress.id]: _, ...rest }) => rest);
+      listOfflineMedia().then(setOfflineMedia).catch(e => console.warn("Could not list offline videos", e));
+      addToast("Saved for offline playback", "success");
+    });
+  }, []);
+
+  const offlineIds = useMemo(() => new Set(offlineMedia.map(m => m.id)), [offlineMedia]);
 
-  const handleAddNetworkStream = (url: string, name: string) => {
+  // Downloaded videos play from their stored blob instead of the network
+  const playsOffline = !!currentVideo && offlineIds.has(currentVideo.id);
+  useEffect(() => {
+    if (!currentVideo || !playsOffline) return;
+    let url: string | null = null;
+    let cancelled = false;
+    const id = currentVideo.id;
+    loadOfflineUrl(id).catch(() => null).then(result => {
+      if (cancelled) {
+        if (result) URL.revokeObjectURL(result);
+      } else if (result) {
+        url = result;
+        setOfflineSource({ id, url });
+      } else {
+        setOfflineMedia(prev => prev.filter(m => m.id !== id)); // Evicted by the browser, stream it instead
+      }
+    });
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+      setOfflineSource(null);
+    };
+  }, [currentVideo?.id, playsOffline]);
+
+  const playerVideo = useMemo(() => {
+    if (!currentVideo || offlineSource?.id !== currentVideo.id) return currentVideo;
+    return { ...currentVideo, url: offlineSource.url };
+  }, [currentVideo, offlineSource]);
+
+  const handleCancelDownload = (id: string) => {
+    cancelDownload(id);
+    setDownloads(({ [id]: _, ...rest }) => rest);
+  };
+
+  const handleRemoveOffline = (id: string) => {
+    removeOfflineMedia(id)
+      .then(() => setOfflineMedia(prev => prev.filter(m => m.id !== id)))
+      .catch(e => console.warn("Could not remove offline video", e));
+  };
+
+  const handleRestoreAccess = async () => {
+    const { videos, needsPermission } = await requestLocalAccess(pendingLocalFiles);
+    appendLocalVideos(videos);
+    setPendingLocalFiles(needsPermission);
+    if (videos.length > 0) addToast(`Restored ${videos.length} videos`, 'success');
+    if (needsPermission.length > 0) addToast(`${needsPermission.length} files still need access, allow them one at a time`, 'info');
+  };
+
+  const handleRemoveLocal = (id: string) => {
+    setLocalVideos(prev => {
+      prev.filter(v => v.id === id).forEach(v => URL.revokeObjectURL(v.url));
+      return prev.filter(v => v.id !== id);
+    });
+    removeLocalFile(id).catch(e => console.warn("Could not remove local file", e));
+    removeCachedFrames(id).catch(e => console.warn("Could not remove cached frames", e));
+    removeSavedSubtitles(id).catch(e => console.warn("Could not remove subtitles", e));
+    addToast("Removed from library", "info");
+  };
+
+  const handleAddNetworkStream = async (url: string, name: string) => {
+    const existing = settings.savedStreams.find(v => v.id === urlVideoId(url));
+    if (existing) {
+      setCurrentVideo(existing);
+      addToast("Stream already saved", "info");
+      return;
+    }
+
+    const type = await probeStreamMimeType(url);
     const newVideo: VideoFile = {
-      id: `stream-${Date.now()}`,
+      id: urlVideoId(url),
       name: name || "Network Stream",
       url: url,
       size: 0,
-      type: 'video/mp4',
+      type,
       lastModified: Date.now(),
       sourceType: 'stream'
     };
@@ -175,34 +411,138 @@ function App() {
      addToast("Stream removed", "info");
   };
 
-  const handleSelectVideo = (video: VideoFile) => {
+  const videoById = useMemo(() => new Map(allVideos.map(v => [v.id, v])), [allVideos]);
+  const queueVideos = useMemo(() => queue.map(id => videoById.get(id)).filter((v): v is VideoFile => !!v), [queue, videoById]);
+  const queueIds = useMemo(() => queueVideos.map(v => v.id), [queueVideos]);
+  const nextVideoId = currentVideo ? nextInQueue(queueIds, currentVideo.id, repeatAll) : undefined;
+  const prevVideoId = currentVideo ? prevInQueue(queueIds, currentVideo.id, repeatAll) : undefined;
+  // What the library's banner offers: the player's next video, or the start of the queue once it's closed
+  const upNextVideo = currentVideo ? (nextVideoId ? videoById.get(nextVideoId) : undefined) : queueVideos[0];
+
+  const startQueue = (ids: string[], currentId: string) => {
+    unshuffledQueueRef.current = ids;
+    setQueue(shuffle ? shuffleAround(ids, currentId) : ids);
+  };
+
+  // Passing a list replaces the queue; otherwise the video joins the existing one
+  const handleSelectVideo = (video: VideoFile, list?: VideoFile[]) => {
     setCurrentVideo(video);
+    if (list) startQueue(list.map(v => v.id), video.id);
+    else setQueue(prev => prev.includes(video.id) ? prev : insertAfter(prev, video.id, currentVideo?.id));
     // Add to history
     setHistory(prev => {
         const newHistory = [video.id, ...prev.filter(id => id !== video.id)];
-        return newHistory.slice(0, 50); // Keep last 50
+        return newHistory.slice(0, HISTORY_LIMIT);
     });
   };
 
+  // Picking from the library brings a docked player back to full screen
+  const handleSelectFromLibrary = (video: VideoFile, list?: VideoFile[]) => {
+    setPlayerMinimized(false);
+    handleSelectVideo(video, list);
+  };
+
   const handleClosePlayer = () => {
     setCurrentVideo(null);
+    setPlayerMinimized(false);
   };
 
   const handleNextVideo = useCallback(() => {
-    if (!currentVideo || allVideos.length === 0) return;
-    const currentIndex = allVideos.findIndex(v => v.id === currentVideo.id);
-    if (currentIndex !== -1 && currentIndex < allVideos.length - 1) {
-       handleSelectVideo(allVideos[currentIndex + 1]);
-    }
-  }, [currentVideo, allVideos]);
+    const next = nextVideoId && videoById.get(nextVideoId);
+    if (next) handleSelectVideo(next);
+  }, [nextVideoId, videoById]);
 
   const handlePrevVideo = useCallback(() => {
-    if (!currentVideo || allVideos.length === 0) return;
-    const currentIndex = allVideos.findIndex(v => v.id === currentVideo.id);
-    if (currentIndex > 0) {
-       handleSelectVideo(allVideos[currentIndex - 1]);
+    const prev = prevVideoId && videoById.get(prevVideoId);
+    if (prev) handleSelectVideo(prev);
+  }, [prevVideoId, videoById]);
+
+  const shortcuts = useMemo(() => resolveBindings(settings.shortcuts), [settings.shortcuts]);
+
+  // Resolved once per opened video so saving progress mid-playback doesn't move the start point
+  const startPosition = useMemo(() => {
+    return currentVideo ? resolveStartTime(progressHistory[currentVideo.id], settings.resumeBehavior) : { startTime: 0 };
+  }, [currentVideo?.id]);
+
+  // Stored side-loaded tracks, merged with any added while they were still loading
+  useEffect(() => {
+    const id = currentVideo?.id;
+    if (!id || loadedSubtitles[id]) return;
+    loadSavedSubtitles(id)
+      .then(tracks => setLoadedSubtitles(prev => ({
+        ...prev,
+        [id]: [...(prev[id] || []), ...tracks.filter(t => !prev[id]?.some(p => p.id === t.id))]
+      })))
+      .catch(e => console.warn("Could not load saved subtitles", e));
+  }, [currentVideo?.id]);
+
+  // Loaded copies replace the source's remote tracks once they've been fetched
+  const subtitleTracks = useMemo(() => {
+    if (!currentVideo) return [];
+    const loaded = loadedSubtitles[currentVideo.id] || [];
+    return [...loaded, ...(currentVideo.subtitles || []).filter(t => !loaded.some(l => l.id === t.id))];
+  }, [currentVideo, loadedSubtitles]);
+
+  // Queue Management
+  const handlePlayNext = (video: VideoFile) => {
+    setQueue(prev => insertAfter(prev, video.id, currentVideo?.id));
+    addToast("Playing next", "info");
+  };
+
+  const handleAddToQueue = (video: VideoFile) => {
+    setQueue(prev => [...prev.filter(id => id !== video.id), video.id]);
+    addToast("Added to queue", "info");
+  };
+
+  const handleReorderQueue = (from: number, to: number) => {
+    // Indices come from the resolved queue, which skips ids that are no longer in the library
+    setQueue(moveItem(queueIds, from, to));
+  };
+
+  const handleRemoveFromQueue = (id: string) => setQueue(prev => prev.filter(q => q !== id));
+
+  const handleClearQueue = () => setQueue([]);
+
+  const handleToggleShuffle = () => {
+    if (shuffle) {
+      setQueue(prev => unshuffle(prev, unshuffledQueueRef.current));
+    } else {
+      unshuffledQueueRef.current = queue;
+      setQueue(shuffleAround(queue, currentVideo?.id));
     }
-  }, [currentVideo, allVideos]);
+    setShuffle(!shuffle);
+    addToast(shuffle ? "Shuffle Off" : "Shuffle On", "info");
+  };
+
+  const handleToggleRepeat = () => {
+    setRepeatAll(!repeatAll);
+    addToast(repeatAll ? "Repeat Off" : "Repeat All", "info");
+  };
+
+  // Playlists
+  const handleCreatePlaylist = (name: string, videoIds: string[] = []) => {
+    const playlist: Playlist = { id: `playlist-${Date.now()}`, name, videoIds, createdAt: Date.now() };
+    setPlaylists(prev => [...prev, playlist]);
+    addToast(`Created "${name}"`, "success");
+  };
+
+  const handleDeletePlaylist = (id: string) => {
+    setPlaylists(prev => prev.filter(p => p.id !== id));
+    addToast("Playlist deleted", "info");
+  };
+
+  const handleAddToPlaylist = (playlistId: string, videoId: string) => {
+    setPlaylists(prev => prev.map(p => 
+      p.id === playlistId && !p.videoIds.includes(videoId) ? { ...p, videoIds: [...p.videoIds, videoId] } : p
+    ));
+    addToast("Added to playlist", "success");
+  };
+
+  const handleRemoveFromPlaylist = (playlistId: string, videoId: string) => {
+    setPlaylists(prev => prev.map(p => 
+      p.id === playlistId ? { ...p, videoIds: p.videoIds.filter(id => id !== videoId) } : p
+    ));
+  };
 
   const handleToggleFavorite = (id: string, e: React.MouseEvent) => {
     e.stopPropagation();
@@ -213,46 +553,110 @@ function App() {
     addToast(isAdding ? "Added to favorites" : "Removed from favorites", "info");
   };
 
-  const handleUpdateProgress = (time: number) => {
+  const handleUpdateProgress = (time: number, duration: number) => {
       if (currentVideo) {
           setProgressHistory(prev => ({
               ...prev,
-              [currentVideo.id]: time
+              [currentVideo.id]: updateProgress(prev[currentVideo.id], time, duration)
           }));
       }
   };
 
-  const handleUpdatePlaybackRate = (rate: number) => {
+  const updateVideoPrefs = (patch: Partial<VideoPreferences>) => {
     if (currentVideo) {
       setVideoPrefs(prev => ({
         ...prev,
         [currentVideo.id]: { 
           ...prev[currentVideo.id], 
-          playbackRate: rate 
+          ...patch 
         }
       }));
     }
   };
 
+  const handleUpdatePlaybackRate = (rate: number) => updateVideoPrefs({ playbackRate: rate });
+  const handleUpdateSubtitlesEnabled = (enabled: boolean) => updateVideoPrefs({ subtitlesEnabled: enabled });
+  const handleUpdateSubtitleTrack = (trackId: string) => updateVideoPrefs({ subtitleTrackId: trackId });
+  const handleUpdateSubtitleDelay = (delay: number) => updateVideoPrefs({ subtitleDelay: delay });
+  const handleUpdateSubtitleStyle = (style: SubtitleStyle) => updateVideoPrefs({ subtitleStyle: style });
+  const handleUpdateLoopRange = (range: LoopRange | null) => updateVideoPrefs({ loopRange: range ?? undefined });
+  const handleUpdateAudioEffects = (effects: AudioEffects) => updateVideoPrefs({ audioEffects: effects });
+  const handleUpdateVideoAdjustments = (adjustments: VideoAdjustments) => updateVideoPrefs({ videoAdjustments: adjustments });
+
+  const updateMarkers = (update: (markers: Marker[]) => Marker[]) => {
+    if (!currentVideo) return;
+    const id = currentVideo.id;
+    setBookmarks(prev => ({ ...prev, [id]: update(prev[id] || []) }));
+  };
+
+  const handleAddBookmark = (marker: Marker) => updateMarkers(markers => [...markers, marker]);
+
+  // A new chapter file replaces previously imported chapters but keeps bookmarks
+  const handleImportChapters = (chapters: Marker[]) => updateMarkers(markers => [...markers.filter(m => m.kind === 'bookmark'), ...chapters]);
+
+  const handleRemoveMarker = (markerId: string) => updateMarkers(markers => markers.filter(m => m.id !== markerId));
+
+  const handleAddSubtitleTrack = (track: SubtitleTrack) => {
+    if (currentVideo) {
+      const id = currentVideo.id;
+      const tracks = [track, ...(loadedSubtitles[id] || []).filter(t => t.id !== track.id)];
+      setLoadedSubtitles(prev => ({ ...prev, [id]: tracks }));
+      if (!track.url) saveSubtitles(id, tracks).catch(e => console.warn("Could not save subtitles", e));
+    }
+  };
+
+  // Backup & Restore
+  const handleExportBackup = () => {
+    const backup = createBackup({ settings, favorites, history, progress: progressHistory, prefs: videoPrefs, playlists, bookmarks });
+    const url = URL.createObjectURL(new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.download = backupFileName();
+    link.href = url;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 0);
+    addToast("Backup exported", "success");
+  };
+
+  const handleRestoreBackup = async (file: File, mode: RestoreMode) => {
+    try {
+      const incoming = parseBackup(await file.text());
+      if (mode === 'replace' && !window.confirm('Replace all settings, history and playlists with the backup?')) return;
+
+      const current: BackupData = { settings, favorites, history, progress: progressHistory, prefs: videoPrefs, playlists, bookmarks };
+      const data = mode === 'merge' ? mergeBackup(current, incoming) : incoming;
+      // Backups don't carry the API key, so a replace keeps this device's
+      setSettings({ ...data.settings, googleApiKey: data.settings.googleApiKey || settings.googleApiKey });
+      setFavorites(data.favorites);
+      setHistory(data.history);
+      setProgressHistory(data.progress);
+      setVideoPrefs(data.prefs);
+      setPlaylists(data.playlists);
+      setBookmarks(data.bookmarks);
+      addToast(mode === 'merge' ? "Backup merged" : "Backup restored", "success");
+    } catch (e) {
+      console.warn("Could not restore backup", e);
+      addToast(e instanceof Error ? e.message : "Could not read backup", "error");
+    }
+  };
+
   const handleClearData = () => {
-    if (window.confirm('Are you sure you want to clear all data? This cannot be undone.')) {
+    if (window.confirm('Are you sure you want to clear all data? This cannot be undone unless you exported a backup.')) {
       localVideos.forEach(v => URL.revokeObjectURL(v.url));
+      clearLocalLibrary().catch(e => console.warn("Could not clear local library", e));
+      clearCachedFrames().catch(e => console.warn("Could not clear cached frames", e));
+      clearOfflineMedia().catch(e => console.warn("Could not clear offline videos", e));
+      clearSavedSubtitles().catch(e => console.warn("Could not clear subtitles", e));
+      setLoadedSubtitles({});
+      setDownloads({});
       setFavorites([]);
       setHistory([]);
       setProgressHistory({});
       setVideoPrefs({});
+      setPlaylists([]);
+      setBookmarks({});
+      setQueue([]);
       setLocalVideos([]);
-      setSettings({
-        themeColor: '#BB86FC',
-        seekTime: 10,
-        defaultSpeed: 1.0,
-        autoPlayNext: true,
-        performanceMode: false,
-        enableOnlineDB: true,
-        googleSheetUrls: [],
-        savedStreams: [],
-        viewMode: 'grid'
-      });
+      setSettings(DEFAULT_SETTINGS);
       localStorage.clear();
       addToast("All data cleared", "error");
       setTimeout(() => window.location.reload(), 1000);
@@ -260,8 +664,8 @@ function App() {
   };
 
   const handleManualRefresh = () => {
-      localStorage.removeItem('affi_sheet_cache');
-      setSettings(s => ({...s})); // Force re-render/effect trigger
+      forceRefreshRef.current = true;
+      setRefreshToken(t => t + 1);
       addToast("Refreshing database...", "info");
   };
 
@@ -283,41 +687,107 @@ function App() {
         ${settings.performanceMode ? `.backdrop-blur-md, .backdrop-blur-sm, .backdrop-blur-xl { backdrop-filter: none !important; background-color: rgba(18, 18, 18, 0.95) !important; }` : ''}
       `}</style>
 
-      {currentVideo ? (
+      {currentVideo && (!playsOffline || offlineSource?.id === currentVideo.id) && (
         <VideoPlayer 
-          video={currentVideo}
-          initialTime={progressHistory[currentVideo.id] || 0}
+          video={playerVideo!}
+          initialTime={startPosition.startTime}
+          resumeTime={startPosition.promptTime}
           initialPlaybackRate={videoPrefs[currentVideo.id]?.playbackRate || settings.defaultSpeed}
+          initialSubtitlesEnabled={videoPrefs[currentVideo.id]?.subtitlesEnabled ?? true}
+          initialSubtitleTrackId={videoPrefs[currentVideo.id]?.subtitleTrackId}
+          initialSubtitleDelay={videoPrefs[currentVideo.id]?.subtitleDelay}
+          initialSubtitleStyle={videoPrefs[currentVideo.id]?.subtitleStyle}
+          initialLoopRange={videoPrefs[currentVideo.id]?.loopRange}
+          initialAudioEffects={videoPrefs[currentVideo.id]?.audioEffects}
+          initialVideoAdjustments={videoPrefs[currentVideo.id]?.videoAdjustments}
+          subtitleTracks={subtitleTracks}
           seekTime={settings.seekTime}
+          timeDisplay={settings.timeDisplay}
+          shortcuts={shortcuts}
+          onTimeDisplayChange={(timeDisplay) => setSettings(prev => ({ ...prev, timeDisplay }))}
           autoPlayNext={settings.autoPlayNext}
           onClose={handleClosePlayer}
+          minimized={playerMinimized}
+          onMinimize={() => setPlayerMinimized(true)}
+          onExpand={() => setPlayerMinimized(false)}
           onUpdateProgress={handleUpdateProgress}
           onPlaybackRateChange={handleUpdatePlaybackRate}
-          onNext={allVideos.indexOf(currentVideo) < allVideos.length - 1 ? handleNextVideo : undefined}
-          onPrev={allVideos.indexOf(currentVideo) > 0 ? handlePrevVideo : undefined}
+          onSubtitlesEnabledChange={handleUpdateSubtitlesEnabled}
+          onSubtitleTrackChange={handleUpdateSubtitleTrack}
+          onSubtitleDelayChange={handleUpdateSubtitleDelay}
+          onSubtitleStyleChange={handleUpdateSubtitleStyle}
+          onLoopRangeChange={handleUpdateLoopRange}
+          onAudioEffectsChange={handleUpdateAudioEffects}
+          onVideoAdjustmentsChange={handleUpdateVideoAdjustments}
+          onAddSubtitleTrack={handleAddSubtitleTrack}
+          markers={bookmarks[currentVideo.id]}
+          onAddBookmark={handleAddBookmark}
+          onImportChapters={handleImportChapters}
+          onRemoveMarker={handleRemoveMarker}
+          onNext={nextVideoId ? handleNextVideo : undefined}
+          onPrev={prevVideoId ? handlePrevVideo : undefined}
+          queue={queueVideos}
+          shuffle={shuffle}
+          repeatAll={repeatAll}
+          onSelectFromQueue={(video) => handleSelectVideo(video)}
+          onReorderQueue={handleReorderQueue}
+          onRemoveFromQueue={handleRemoveFromQueue}
+          onToggleShuffle={handleToggleShuffle}
+          onToggleRepeat={handleToggleRepeat}
           addToast={addToast}
         />
-      ) : (
+      )}
+      {(!currentVideo || playerMinimized) && (
         <VideoList 
           videos={allVideos} 
           favorites={favorites}
           history={history}
           progressHistory={progressHistory}
+          bookmarks={bookmarks}
           settings={settings}
           loadingSheets={loadingSheets}
+          sourceCache={sourceCache}
+          refreshingSources={refreshingSources}
           activeTab={activeTab}
           setActiveTab={setActiveTab}
           onSettingsChange={setSettings}
-          onSelect={handleSelectVideo} 
+          onSelect={handleSelectFromLibrary} 
+          playlists={playlists}
+          queue={queueVideos}
+          upNext={upNextVideo}
+          onPlayNext={handlePlayNext}
+          onAddToQueue={handleAddToQueue}
+          onClearQueue={handleClearQueue}
+          onCreatePlaylist={handleCreatePlaylist}
+          onDeletePlaylist={handleDeletePlaylist}
+          onAddToPlaylist={handleAddToPlaylist}
+          onRemoveFromPlaylist={handleRemoveFromPlaylist}
           onImport={handleImport}
+          onPickFiles={supportsFileHandles() ? handlePickFiles : undefined}
+          onPickFolder={supportsDirectoryPicker() ? handlePickFolder : undefined}
+          pendingLocalCount={pendingLocalFiles.length}
+          onRestoreAccess={handleRestoreAccess}
+          onDeleteLocal={handleRemoveLocal}
           onAddNetworkStream={handleAddNetworkStream}
           onToggleFavorite={handleToggleFavorite}
           onDeleteStream={handleRemoveStream}
           onClearData={handleClearData}
+          onExportBackup={handleExportBackup}
+          onRestoreBackup={handleRestoreBackup}
           onRefresh={handleManualRefresh}
+          downloads={downloads}
+          offlineMedia={offlineMedia}
+          onDownload={startDownload}
+          onPauseDownload={pauseDownload}
+          onResumeDownload={resumeDownload}
+          onCancelDownload={handleCancelDownload}
+          onRemoveOffline={handleRemoveOffline}
+          miniPlayerOpen={!!currentVideo}
         />
       )}
 
+      <UpdatePrompt />
+
       {/* Toast Container */}
       <div className="fixed bottom-20 md:bottom-6 left-1/2 -translate-x-1/2 flex flex-col gap-2 z-[60] pointer-events-none w-full max-w-sm px-4">
         {toasts.map(toast => (
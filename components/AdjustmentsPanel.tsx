@@ -0,0 +1,118 @@
+import React from 'react';
+import { VideoAdjustments, CropInsets } from '../types';
+import { DEFAULT_VIDEO_ADJUSTMENTS, MAX_CROP } from '../constants';
+import { Icons } from './Icons';
+import { isAdjusted } from '../utils/videoFilters';
+
+type SliderKey = 'contrast' | 'saturation' | 'gamma' | 'hue' | 'grayscale' | 'sepia' | 'sharpen';
+
+const percent = (v: number) => `${Math.round(v * 100)}%`;
+
+const SLIDERS: { key: SliderKey; label: string; min: number; max: number; step: number; format: (v: number) => string }[] = [
+  { key: 'contrast', label: 'Contrast', min: 0, max: 2, step: 0.05, format: percent },
+  { key: 'saturation', label: 'Saturation', min: 0, max: 3, step: 0.05, format: percent },
+  { key: 'gamma', label: 'Gamma', min: 0.3, max: 2.5, step: 0.05, format: v => v.toFixed(2) },
+  { key: 'hue', label: 'Hue', min: -180, max: 180, step: 1, format: v => `${v}°` },
+  { key: 'grayscale', label: 'Grayscale', min: 0, max: 1, step: 0.05, format: percent },
+  { key: 'sepia', label: 'Sepia', min: 0, max: 1, step: 0.05, format: percent },
+  { key: 'sharpen', label: 'Sharpen', min: 0, max: 1, step: 0.05, format: percent }
+];
+
+const CROP_EDGES: { key: keyof CropInsets; label: string }[] = [
+  { key: 'top', label: 'Top' },
+  { key: 'bottom', label: 'Bottom' },
+  { key: 'left', label: 'Left' },
+  { key: 'right', label: 'Right' }
+];
+
+interface AdjustmentsPanelProps {
+  adjustments: VideoAdjustments;
+  onChange: (adjustments: VideoAdjustments) => void;
+  onClose: () => void;
+}
+
+// Stops taps inside the panel from reaching the player's gesture handlers
+const stop = (e: React.SyntheticEvent) => e.stopPropagation();
+
+const ResetButton: React.FC<{ visible: boolean; onClick: () => void }> = ({ visible, onClick }) => (
+  <button onClick={onClick} disabled={!visible} className="text-[10px] text-white/40 hover:text-white disabled:invisible">Reset</button>
+);
+
+export const AdjustmentsPanel: React.FC<AdjustmentsPanelProps> = ({ adjustments, onChange, onClose }) => {
+  const { crop } = adjustments;
+  const defaults = DEFAULT_VIDEO_ADJUSTMENTS;
+  const cropped = CROP_EDGES.some(({ key }) => crop[key] !== 0);
+
+  return (
+    <div
+      className="absolute right-0 top-0 bottom-0 w-full sm:w-80 bg-[#1E1E1E]/95 backdrop-blur-xl border-l border-white/10 shadow-2xl flex flex-col animate-fade-in z-50"
+      onMouseDown={stop} onMouseUp={stop} onMouseMove={stop} onTouchStart={stop} onTouchMove={stop} onTouchEnd={stop}
+    >
+      <div className="flex items-center justify-between p-4 border-b border-white/10">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2"><Icons.Adjust className="w-5 h-5 text-primary"/> Picture</h3>
+          <div className="flex items-center gap-1">
+              <button onClick={() => onChange(defaults)} disabled={!isAdjusted(adjustments)} className="px-3 py-1 text-xs text-white/60 hover:text-white disabled:opacity-30">Reset All</button>
+              <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full"><Icons.Close className="w-5 h-5 text-white"/></button>
+          </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-6 no-scrollbar">
+          <div className="bg-white/5 p-4 rounded-xl space-y-4">
+              {SLIDERS.map(({ key, label, min, max, step, format }) => (
+                  <div key={key} className="space-y-1">
+                      <div className="flex justify-between items-center text-xs text-white/60">
+                          <span>{label}</span>
+                          <div className="flex items-center gap-2">
+                              <ResetButton visible={adjustments[key] !== defaults[key]} onClick={() => onChange({ ...adjustments, [key]: defaults[key] })} />
+                              <span className="font-mono text-primary w-12 text-right">{format(adjustments[key])}</span>
+                          </div>
+                      </div>
+                      <input
+                          type="range" min={min} max={max} step={step}
+                          value={adjustments[key]}
+                          onChange={(e) => onChange({ ...adjustments, [key]: parseFloat(e.target.value) })}
+                          className="w-full accent-primary h-1 bg-white/20 rounded-full appearance-none cursor-pointer"
+                      />
+                  </div>
+              ))}
+          </div>
+
+          <div className="bg-white/5 p-4 rounded-xl space-y-3">
+              <div className="flex justify-between items-center">
+                  <span className="text-sm font-medium text-white/80">Mirror</span>
+                  <ResetButton visible={adjustments.mirrorX || adjustments.mirrorY} onClick={() => onChange({ ...adjustments, mirrorX: false, mirrorY: false })} />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                  <button onClick={() => onChange({ ...adjustments, mirrorX: !adjustments.mirrorX })} className={`py-2 text-xs rounded-lg transition flex items-center justify-center gap-2 ${adjustments.mirrorX ? 'bg-primary/20 text-primary font-bold' : 'bg-black/20 text-white/60 hover:bg-white/5'}`}>
+                      <Icons.FlipHorizontal className="w-4 h-4" /> Horizontal
+                  </button>
+                  <button onClick={() => onChange({ ...adjustments, mirrorY: !adjustments.mirrorY })} className={`py-2 text-xs rounded-lg transition flex items-center justify-center gap-2 ${adjustments.mirrorY ? 'bg-primary/20 text-primary font-bold' : 'bg-black/20 text-white/60 hover:bg-white/5'}`}>
+                      <Icons.FlipVertical className="w-4 h-4" /> Vertical
+                  </button>
+              </div>
+          </div>
+
+          <div className="bg-white/5 p-4 rounded-xl space-y-4">
+              <div className="flex justify-between items-center">
+                  <span className="text-sm font-medium text-white/80 flex items-center gap-2"><Icons.Crop className="w-4 h-4" /> Crop</span>
+                  <ResetButton visible={cropped} onClick={() => onChange({ ...adjustments, crop: defaults.crop })} />
+              </div>
+              {CROP_EDGES.map(({ key, label }) => (
+                  <div key={key} className="space-y-1">
+                      <div className="flex justify-between text-xs text-white/60">
+                          <span>{label}</span>
+                          <span className="font-mono">{crop[key]}%</span>
+                      </div>
+                      <input
+                          type="range" min="0" max={MAX_CROP} step="0.5"
+                          value={crop[key]}
+                          onChange={(e) => onChange({ ...adjustments, crop: { ...crop, [key]: parseFloat(e.target.value) } })}
+                          className="w-full accent-white/50 h-1 bg-white/10 rounded-full appearance-none"
+                      />
+                  </div>
+              ))}
+          </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,61 @@
+import React from 'react';
+import clsx from 'clsx';
+import { VideoFile, AudioTags } from '../types';
+import { Icons } from './Icons';
+
+interface AudioViewProps {
+  video: VideoFile;
+  tags?: AudioTags;
+  coverUrl?: string;
+  peaks?: number[];
+  currentTime: number;
+  duration: number;
+  onSeek: (time: number) => void;
+}
+
+// Keeps taps on the artwork and waveform away from the player's gesture handlers
+const stop = (e: React.SyntheticEvent) => e.stopPropagation();
+
+export const AudioView: React.FC<AudioViewProps> = ({ video, tags, coverUrl, peaks, currentTime, duration, onSeek }) => {
+  const progress = duration > 0 ? currentTime / duration : 0;
+  const subtitle = [tags?.artist, tags?.album || video.sheetName].filter(Boolean).join(' · ');
+
+  const seekFromPointer = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    onSeek(Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width)) * duration);
+  };
+
+  return (
+    <div className="absolute inset-0 flex flex-col items-center justify-center gap-6 px-6 pt-20 pb-44 bg-gradient-to-b from-[#1E1E1E] to-black">
+      <div
+        className="w-full max-w-[18rem] aspect-square rounded-2xl overflow-hidden shadow-2xl bg-gradient-to-br from-purple-900 to-black flex items-center justify-center shrink min-h-0"
+        onMouseDown={stop} onMouseUp={stop} onTouchStart={stop} onTouchEnd={stop}
+      >
+        {coverUrl ? <img src={coverUrl} alt={video.name} className="w-full h-full object-cover" /> : <Icons.Music className="w-20 h-20 text-white/30" />}
+      </div>
+
+      <div className="text-center max-w-md min-w-0 w-full">
+        <h2 className="text-white text-xl font-bold truncate">{tags?.title || video.name}</h2>
+        {subtitle && <p className="text-white/50 text-sm truncate mt-1">{subtitle}</p>}
+      </div>
+
+      <div
+        className="w-full max-w-xl h-16 flex items-center gap-[2px] cursor-pointer"
+        onClick={seekFromPointer}
+        onMouseDown={stop} onMouseUp={stop} onTouchStart={stop} onTouchEnd={stop}
+      >
+        {peaks ? peaks.map((peak, i) => (
+          <div
+            key={i}
+            className={clsx("flex-1 rounded-full transition-colors", (i + 0.5) / peaks.length <= progress ? "bg-primary" : "bg-white/20")}
+            style={{ height: `${Math.max(6, peak * 100)}%` }}
+          />
+        )) : (
+          <div className="w-full h-1 bg-white/20 rounded-full overflow-hidden">
+            <div className="h-full bg-primary" style={{ width: `${progress * 100}%` }} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
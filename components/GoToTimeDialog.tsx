@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { Icons } from './Icons';
+import { formatPreciseTime, parseTimeInput } from '../utils/time';
+
+interface GoToTimeDialogProps {
+  currentTime: number;
+  duration: number;
+  onGo: (time: number) => void;
+  onClose: () => void;
+}
+
+// Stops taps inside the dialog from reaching the player's gesture handlers
+const stop = (e: React.SyntheticEvent) => e.stopPropagation();
+
+export const GoToTimeDialog: React.FC<GoToTimeDialogProps> = ({ currentTime, duration, onGo, onClose }) => {
+  const [value, setValue] = useState(formatPreciseTime(currentTime));
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const time = parseTimeInput(value);
+    if (time === null) {
+      setError('Use hh:mm:ss.mmm, mm:ss or seconds');
+      return;
+    }
+    if (duration > 0 && time > duration) {
+      setError(`The video ends at ${formatPreciseTime(duration)}`);
+      return;
+    }
+    onGo(time);
+  };
+
+  return (
+    <div
+      className="absolute inset-0 z-[45] flex items-center justify-center bg-black/60 backdrop-blur-sm animate-fade-in"
+      onMouseDown={stop} onMouseUp={stop} onTouchStart={stop} onTouchEnd={stop}
+      onClick={onClose}
+    >
+        <form onSubmit={submit} onClick={stop} className="bg-[#1E1E1E] border border-white/10 rounded-2xl p-6 shadow-2xl flex flex-col gap-4 max-w-xs w-full mx-4">
+            <div className="flex items-center justify-between">
+                <h3 className="text-white font-bold flex items-center gap-2"><Icons.Clock className="w-5 h-5 text-primary" /> Go to Time</h3>
+                <button type="button" onClick={onClose} className="p-1 hover:bg-white/10 rounded-full"><Icons.Close className="w-5 h-5 text-white" /></button>
+            </div>
+            <input
+                autoFocus
+                value={value}
+                onChange={e => { setValue(e.target.value); setError(null); }}
+                onKeyDown={e => { if (e.key === 'Escape') onClose(); }}
+                onFocus={e => e.target.select()}
+                placeholder="hh:mm:ss.mmm"
+                inputMode="decimal"
+                className="w-full bg-black/40 border border-white/10 rounded-lg px-3 py-2 text-white font-mono text-lg text-center focus:outline-none focus:border-primary"
+            />
+            {error && <p className="text-xs text-red-400 -mt-2">{error}</p>}
+            <button type="submit" className="w-full py-2.5 rounded-lg bg-primary text-black font-bold">Go</button>
+        </form>
+    </div>
+  );
+};
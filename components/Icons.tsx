@@ -39,7 +39,27 @@ import {
   Moon,
   LayoutGrid,
   ListVideo,
-  Check
+  Check,
+  FolderPlus,
+  ChevronRight,
+  Shuffle,
+  GripVertical,
+  ListPlus,
+  ListStart,
+  ListEnd,
+  Plus,
+  Bookmark,
+  BookmarkPlus,
+  ListOrdered,
+  HardDriveDownload,
+  Music,
+  SlidersHorizontal,
+  FlipHorizontal2,
+  FlipVertical2,
+  Crop,
+  StepBack,
+  StepForward,
+  SkipForward
 } from 'lucide-react';
 
 export const Icons = {
@@ -83,5 +103,25 @@ export const Icons = {
   Moon,
   LayoutGrid,
   ListVideo,
-  Check
+  Check,
+  FolderPlus,
+  ChevronRight,
+  Shuffle,
+  GripVertical,
+  ListPlus,
+  PlayNext: ListStart,
+  AddToQueue: ListEnd,
+  Plus,
+  Bookmark,
+  AddBookmark: BookmarkPlus,
+  Chapters: ListOrdered,
+  Offline: HardDriveDownload,
+  Music,
+  Adjust: SlidersHorizontal,
+  FlipHorizontal: FlipHorizontal2,
+  FlipVertical: FlipVertical2,
+  Crop,
+  StepBack,
+  StepForward,
+  SkipForward
 };
\ No newline at end of file
@@ -0,0 +1,71 @@
+import React from 'react';
+import { Marker } from '../types';
+import { Icons } from './Icons';
+import { formatTime } from '../utils/time';
+import { markerAt } from '../utils/markers';
+
+interface MarkersPanelProps {
+  markers: Marker[];
+  currentTime: number;
+  canRemove: (marker: Marker) => boolean;
+  onJump: (marker: Marker) => void;
+  onRemove: (id: string) => void;
+  onAddBookmark: () => void;
+  onImportChapters: () => void;
+  onClose: () => void;
+}
+
+// Stops taps inside the panel from reaching the player's gesture handlers
+const stop = (e: React.SyntheticEvent) => e.stopPropagation();
+
+export const MarkersPanel: React.FC<MarkersPanelProps> = ({
+  markers,
+  currentTime,
+  canRemove,
+  onJump,
+  onRemove,
+  onAddBookmark,
+  onImportChapters,
+  onClose
+}) => {
+  const current = markerAt(markers, currentTime);
+
+  return (
+    <div
+      className="absolute right-0 top-0 bottom-0 w-full sm:w-80 bg-[#1E1E1E]/95 backdrop-blur-xl border-l border-white/10 shadow-2xl flex flex-col animate-fade-in z-50"
+      onMouseDown={stop} onMouseUp={stop} onMouseMove={stop} onTouchStart={stop} onTouchMove={stop} onTouchEnd={stop}
+    >
+      <div className="flex items-center justify-between p-4 border-b border-white/10">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2"><Icons.Chapters className="w-5 h-5 text-primary"/> Chapters</h3>
+          <div className="flex items-center gap-1">
+              <button onClick={onAddBookmark} className="p-2 rounded-full hover:bg-white/10 text-white/70 transition" title="Bookmark current time (B)"><Icons.AddBookmark className="w-4 h-4" /></button>
+              <button onClick={onImportChapters} className="p-2 rounded-full hover:bg-white/10 text-white/70 transition" title="Import WebVTT chapters"><Icons.Folder className="w-4 h-4" /></button>
+              <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full"><Icons.Close className="w-5 h-5 text-white"/></button>
+          </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1 no-scrollbar">
+          {markers.length === 0 && (
+              <p className="text-sm text-white/40 text-center px-6 py-10">No chapters or bookmarks yet. Press B to bookmark the current moment.</p>
+          )}
+          {markers.map(marker => {
+              const isCurrent = marker.id === current?.id;
+              return (
+                  <div key={marker.id} className={`flex items-center gap-2 px-2 py-2 rounded-lg transition ${isCurrent ? 'bg-primary/15' : 'hover:bg-white/5'}`}>
+                      {marker.kind === 'bookmark'
+                          ? <Icons.Bookmark className="w-4 h-4 text-yellow-400 flex-shrink-0" />
+                          : <Icons.Chapters className="w-4 h-4 text-white/30 flex-shrink-0" />}
+                      <button onClick={() => onJump(marker)} className="flex-1 min-w-0 text-left flex items-baseline gap-2">
+                          <span className="text-xs font-mono text-white/40 flex-shrink-0">{formatTime(marker.time)}</span>
+                          <span className={`text-sm truncate ${isCurrent ? 'text-primary font-medium' : 'text-white/80'}`}>{marker.label}</span>
+                      </button>
+                      {canRemove(marker) && (
+                          <button onClick={() => onRemove(marker.id)} className="p-1 text-white/30 hover:text-red-400 transition"><Icons.Close className="w-4 h-4" /></button>
+                      )}
+                  </div>
+              );
+          })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,46 @@
+import React from 'react';
+import { Icons } from './Icons';
+
+interface MiniPlayerProps {
+  title: string;
+  subtitle?: string;
+  coverUrl?: string;
+  showCover: boolean; // Videos show their own picture in the slot instead
+  playing: boolean;
+  progress: number; // 0 - 1
+  onPlayPause: () => void;
+  onNext?: () => void;
+  onExpand: () => void;
+  onClose: () => void;
+}
+
+// Docked player bar that keeps playback going while browsing the library
+export const MiniPlayer: React.FC<MiniPlayerProps> = ({ title, subtitle, coverUrl, showCover, playing, progress, onPlayPause, onNext, onExpand, onClose }) => (
+  <>
+    {showCover && (
+      <div className="absolute left-2 top-2 w-12 h-12 rounded-lg overflow-hidden bg-gradient-to-br from-purple-900 to-black flex items-center justify-center">
+        {coverUrl ? <img src={coverUrl} alt={title} className="w-full h-full object-cover" /> : <Icons.Music className="w-6 h-6 text-white/50" />}
+      </div>
+    )}
+    <div className="absolute inset-y-0 left-16 right-2 flex items-center gap-1">
+      <button onClick={onExpand} className="flex-1 min-w-0 text-left px-1">
+        <p className="text-white text-sm font-medium truncate">{title}</p>
+        {subtitle && <p className="text-white/50 text-xs truncate">{subtitle}</p>}
+      </button>
+      <button onClick={onPlayPause} className="p-2 rounded-full hover:bg-white/10 text-white" title={playing ? 'Pause' : 'Play'}>
+        {playing ? <Icons.Pause className="w-5 h-5 fill-current" /> : <Icons.Play className="w-5 h-5 fill-current" />}
+      </button>
+      {onNext && (
+        <button onClick={onNext} className="p-2 rounded-full hover:bg-white/10 text-white/70 hover:text-white" title="Next">
+          <Icons.SkipForward className="w-5 h-5" />
+        </button>
+      )}
+      <button onClick={onClose} className="p-2 rounded-full hover:bg-white/10 text-white/50 hover:text-white" title="Close">
+        <Icons.Close className="w-5 h-5" />
+      </button>
+    </div>
+    <div className="absolute bottom-0 inset-x-0 h-0.5 bg-white/10">
+      <div className="h-full bg-primary" style={{ width: `${progress * 100}%` }} />
+    </div>
+  </>
+);
@@ -1,14 +1,34 @@
 import React, { useMemo, useState, useRef } from 'react';
-import { PlayerState, GestureSensitivity } from '../types';
+import { PlayerState, GestureSensitivity, SubtitleTrack, SubtitleStyle, StreamQuality, Storyboard, Marker, LoopRange, AudioEffects, TimeDisplay } from '../types';
 import { Icons } from './Icons';
-import { formatTime } from '../utils/time';
+import { formatTime, formatTimeAs } from '../utils/time';
+import { storyboardFrameAt } from '../utils/thumbnails';
+import { markerAt } from '../utils/markers';
+import { DEFAULT_SUBTITLE_STYLE, SUBTITLE_COLORS, AUTO_QUALITY, LOOP_REPEAT_OPTIONS, LOOP_GAP_OPTIONS, MAX_SUBTITLE_DELAY, DEFAULT_AUDIO_EFFECTS, MAX_VOLUME_BOOST, EQ_BANDS, EQ_MAX_GAIN, EQ_PRESETS } from '../constants';
 
 interface PlayerControlsProps {
   state: PlayerState;
   title: string;
   videoUrl: string;
+  isAudio?: boolean; // Hides the picture-only controls, and back docks the player instead of closing it
+  storyboard?: Storyboard;
+  storyboardUrl?: string;
+  markers: Marker[];
+  loopStart: number | null;
+  loopRange: LoopRange | null;
   sensitivity: GestureSensitivity;
   showSettings: boolean;
+  subtitlesEnabled: boolean;
+  hasSubtitles: boolean;
+  subtitleTracks: SubtitleTrack[];
+  activeSubtitleTrackId?: string;
+  subtitleDelay: number;
+  subtitleStyle: SubtitleStyle;
+  audioEffects: AudioEffects;
+  audioEffectsAvailable: boolean; // False for cross-origin sources Web Audio can't read
+  qualities: StreamQuality[];
+  selectedQuality: number;
+  activeQuality: number | null;
   onPlayPause: () => void;
   onSeek: (time: number) => void;
   onScrub?: (time: number) => void;
@@ -16,11 +36,31 @@ interface PlayerControlsProps {
   onTogglePip: () => void;
   onBack: () => void;
   onChangeSpeed: (speed: number) => void;
+  onChangeQuality: (index: number) => void;
   onToggleFit: () => void;
   onToggleLoop: () => void;
+  onCycleLoop: () => void;
+  onSetLoopPoint: (point: 'a' | 'b') => void;
+  onClearLoop: () => void;
+  onLoopOptionsChange: (options: Pick<LoopRange, 'repeats' | 'gap'>) => void;
   onScreenshot: () => void;
   onLoadSubtitle: () => void;
+  onToggleSubtitles: () => void;
+  onSelectSubtitleTrack: (trackId: string) => void;
+  onSubtitleDelayChange: (delay: number) => void;
+  onSubtitleStyleChange: (style: SubtitleStyle) => void;
+  onAudioEffectsChange: (effects: AudioEffects) => void;
   onToggleSettings: () => void;
+  onToggleQueue: () => void;
+  onToggleMarkers: () => void;
+  onToggleAdjustments: () => void;
+  adjusted: boolean; // Any picture correction is active
+  timeDisplay: TimeDisplay;
+  frameRate: number;
+  frameRateKnown: boolean; // Otherwise frame numbers assume the default rate
+  onCycleTimeDisplay: () => void;
+  onStepFrame: (direction: 1 | -1) => void;
+  onGoToTime: () => void;
   onSensitivityChange: (key: keyof GestureSensitivity, value: number) => void;
   onNext?: () => void;
   onPrev?: () => void;
@@ -32,8 +72,25 @@ interface PlayerControlsProps {
 export const PlayerControls: React.FC<PlayerControlsProps> = ({
   state,
   title,
+  isAudio = false,
+  storyboard,
+  storyboardUrl,
+  markers,
+  loopStart,
+  loopRange,
   sensitivity,
   showSettings,
+  subtitlesEnabled,
+  hasSubtitles,
+  subtitleTracks,
+  activeSubtitleTrackId,
+  subtitleDelay,
+  subtitleStyle,
+  audioEffects,
+  audioEffectsAvailable,
+  qualities,
+  selectedQuality,
+  activeQuality,
   onPlayPause,
   onSeek,
   onScrub,
@@ -41,11 +98,31 @@ export const PlayerControls: React.FC<PlayerControlsProps> = ({
   onTogglePip,
   onBack,
   onChangeSpeed,
+  onChangeQuality,
   onToggleFit,
   onToggleLoop,
+  onCycleLoop,
+  onSetLoopPoint,
+  onClearLoop,
+  onLoopOptionsChange,
   onScreenshot,
   onLoadSubtitle,
+  onToggleSubtitles,
+  onSelectSubtitleTrack,
+  onSubtitleDelayChange,
+  onSubtitleStyleChange,
+  onAudioEffectsChange,
   onToggleSettings,
+  onToggleQueue,
+  onToggleMarkers,
+  onToggleAdjustments,
+  adjusted,
+  timeDisplay,
+  frameRate,
+  frameRateKnown,
+  onCycleTimeDisplay,
+  onStepFrame,
+  onGoToTime,
   onSensitivityChange,
   onNext,
   onPrev,
@@ -62,6 +139,7 @@ export const PlayerControls: React.FC<PlayerControlsProps> = ({
 
   const currentDisplayTime = isDragging ? dragTime : currentTime;
   const progressPercent = duration > 0 ? (currentDisplayTime / duration) * 100 : 0;
+  const dragMarker = isDragging ? markerAt(markers, dragTime) : undefined;
 
   const handleSeekStart = (e: React.MouseEvent | React.TouchEvent) => {
     setIsDragging(true);
@@ -89,6 +167,12 @@ export const PlayerControls: React.FC<PlayerControlsProps> = ({
     }
   };
 
+  const formatBand = (hz: number) => hz >= 1000 ? `${hz / 1000}k` : String(hz);
+  const setBandGain = (band: number, gain: number) => {
+    const eqGains = audioEffects.eqGains.map((g, i) => i === band ? gain : g);
+    onAudioEffectsChange({ ...audioEffects, eqGains, eqPreset: 'Custom' });
+  };
+
   // Preset speeds for the button cycle
   const cycleSpeed = () => {
     const speeds = [1.0, 1.5, 2.0, 4.0];
@@ -115,7 +199,7 @@ export const PlayerControls: React.FC<PlayerControlsProps> = ({
       <div className="bg-gradient-to-b from-black/90 via-black/50 to-transparent px-4 py-4 pointer-events-auto flex items-center justify-between">
           <div className="flex items-center gap-4 flex-1 min-w-0">
             <button onClick={onBack} className="p-2 rounded-full hover:bg-white/10 transition active:scale-95">
-                <Icons.Back className="w-6 h-6 text-white" />
+                {isAudio ? <Icons.ChevronDown className="w-6 h-6 text-white" /> : <Icons.Back className="w-6 h-6 text-white" />}
             </button>
             <h2 className="text-white font-medium truncate text-lg drop-shadow-md">{title}</h2>
           </div>
@@ -139,7 +223,10 @@ export const PlayerControls: React.FC<PlayerControlsProps> = ({
                    </div>
                 )}
              </div>
-             <button onClick={onTogglePip} className="p-2 rounded-full hover:bg-white/10 text-white"><Icons.Pip className="w-5 h-5" /></button>
+             {!isAudio && <button onClick={onTogglePip} className="p-2 rounded-full hover:bg-white/10 text-white"><Icons.Pip className="w-5 h-5" /></button>}
+             {!isAudio && <button onClick={onToggleAdjustments} className={`p-2 rounded-full hover:bg-white/10 ${adjusted ? 'text-primary' : 'text-white'}`} title="Picture"><Icons.Adjust className="w-5 h-5" /></button>}
+             <button onClick={onToggleMarkers} className="p-2 rounded-full hover:bg-white/10 text-white" title="Chapters & Bookmarks"><Icons.Chapters className="w-5 h-5" /></button>
+             <button onClick={onToggleQueue} className="p-2 rounded-full hover:bg-white/10 text-white" title="Up Next"><Icons.ListVideo className="w-5 h-5" /></button>
              <button onClick={onToggleSettings} className="p-2 rounded-full hover:bg-white/10 text-white"><Icons.Settings className="w-5 h-5" /></button>
           </div>
       </div>
@@ -180,24 +267,235 @@ export const PlayerControls: React.FC<PlayerControlsProps> = ({
                       </div>
                   </div>
 
+                  {/* Stream Quality */}
+                  {qualities.length > 1 && (
+                      <div className="bg-white/5 p-4 rounded-xl space-y-3">
+                          <span className="text-sm font-medium text-white/80">Quality</span>
+                          <div className="space-y-1">
+                              <button onClick={() => onChangeQuality(AUTO_QUALITY)} className="w-full text-left px-3 py-2 text-xs text-white/80 bg-black/20 hover:bg-white/5 rounded-lg transition flex justify-between items-center">
+                                  <span>Auto{selectedQuality === AUTO_QUALITY && activeQuality !== null && qualities[activeQuality] ? ` (${qualities[activeQuality].label})` : ''}</span>
+                                  {selectedQuality === AUTO_QUALITY && <Icons.Check className="w-4 h-4 text-primary" />}
+                              </button>
+                              {[...qualities].sort((a, b) => b.bitrate - a.bitrate).map(q => (
+                                  <button key={q.index} onClick={() => onChangeQuality(q.index)} className="w-full text-left px-3 py-2 text-xs text-white/80 bg-black/20 hover:bg-white/5 rounded-lg transition flex justify-between items-center">
+                                      <span>{q.label} <span className="text-white/40 font-mono">{(q.bitrate / 1e6).toFixed(1)} Mbps</span></span>
+                                      {selectedQuality === q.index && <Icons.Check className="w-4 h-4 text-primary" />}
+                                  </button>
+                              ))}
+                          </div>
+                      </div>
+                  )}
+
+                  {/* Audio Effects */}
+                  <div className="bg-white/5 p-4 rounded-xl space-y-4">
+                      <div className="flex justify-between items-center">
+                          <span className="text-sm font-medium text-white/80">Audio</span>
+                          {audioEffectsAvailable && <button onClick={() => onAudioEffectsChange(DEFAULT_AUDIO_EFFECTS)} className="text-[10px] text-white/40 hover:text-white">Reset</button>}
+                      </div>
+
+                      {!audioEffectsAvailable ? (
+                          <p className="text-xs text-white/40">Boost, normalize and EQ need a local file or a source that allows cross-origin access.</p>
+                      ) : (<>
+                          <div className="space-y-1">
+                              <div className="flex justify-between text-xs text-white/60">
+                                  <span>Volume Boost</span>
+                                  <span className="font-mono text-primary">{Math.round(audioEffects.boost * 100)}%</span>
+                              </div>
+                              <input 
+                                  type="range" min="1" max={MAX_VOLUME_BOOST} step="0.1" 
+                                  value={audioEffects.boost} 
+                                  onChange={(e) => onAudioEffectsChange({ ...audioEffects, boost: parseFloat(e.target.value) })}
+                                  className="w-full accent-primary h-1 bg-white/20 rounded-full appearance-none cursor-pointer"
+                              />
+                          </div>
+
+                          <div className="grid grid-cols-2 gap-2">
+                              <button onClick={() => onAudioEffectsChange({ ...audioEffects, normalize: !audioEffects.normalize })} className={`py-2 text-xs rounded-lg transition ${audioEffects.normalize ? 'bg-primary/20 text-primary font-bold' : 'bg-black/20 text-white/60 hover:bg-white/5'}`}>Normalize</button>
+                              <button onClick={() => onAudioEffectsChange({ ...audioEffects, mono: !audioEffects.mono })} className={`py-2 text-xs rounded-lg transition ${audioEffects.mono ? 'bg-primary/20 text-primary font-bold' : 'bg-black/20 text-white/60 hover:bg-white/5'}`}>Mono</button>
+                          </div>
+
+                          <div className="space-y-1">
+                              <div className="flex justify-between text-xs text-white/60">
+                                  <span>Balance</span>
+                                  <span className="font-mono">{audioEffects.balance === 0 ? 'Center' : `${Math.round(Math.abs(audioEffects.balance) * 100)}% ${audioEffects.balance < 0 ? 'L' : 'R'}`}</span>
+                              </div>
+                              <input 
+                                  type="range" min="-1" max="1" step="0.05" 
+                                  value={audioEffects.balance} 
+                                  onChange={(e) => onAudioEffectsChange({ ...audioEffects, balance: parseFloat(e.target.value) })}
+                                  onDoubleClick={() => onAudioEffectsChange({ ...audioEffects, balance: 0 })}
+                                  className="w-full accent-white/50 h-1 bg-white/10 rounded-full appearance-none"
+                              />
+                          </div>
+
+                          <div className="space-y-2">
+                              <span className="text-xs text-white/60">Equalizer</span>
+                              <div className="flex flex-wrap gap-1">
+                                  {Object.keys(EQ_PRESETS).map(name => (
+                                      <button key={name} onClick={() => onAudioEffectsChange({ ...audioEffects, eqPreset: name, eqGains: EQ_PRESETS[name] })} className={`px-2 py-1 text-[10px] rounded transition ${audioEffects.eqPreset === name ? 'bg-primary text-black font-bold' : 'bg-black/20 text-white/60 hover:bg-white/5'}`}>{name}</button>
+                                  ))}
+                                  {audioEffects.eqPreset === 'Custom' && <span className="px-2 py-1 text-[10px] rounded bg-primary text-black font-bold">Custom</span>}
+                              </div>
+                              {EQ_BANDS.map((hz, band) => (
+                                  <div key={hz} className="flex items-center gap-2">
+                                      <span className="w-8 text-[10px] text-white/40 font-mono">{formatBand(hz)}</span>
+                                      <input 
+                                          type="range" min={-EQ_MAX_GAIN} max={EQ_MAX_GAIN} step="1" 
+                                          value={audioEffects.eqGains[band] || 0} 
+                                          onChange={(e) => setBandGain(band, parseInt(e.target.value, 10))}
+                                          className="flex-1 accent-white/50 h-1 bg-white/10 rounded-full appearance-none"
+                                      />
+                                      <span className="w-8 text-right text-[10px] text-white/60 font-mono">{audioEffects.eqGains[band] > 0 ? '+' : ''}{audioEffects.eqGains[band] || 0}</span>
+                                  </div>
+                              ))}
+                          </div>
+                      </>)}
+                  </div>
+
+                  {/* Subtitle Settings */}
+                  {hasSubtitles && (
+                      <div className="bg-white/5 p-4 rounded-xl space-y-4">
+                          <div className="flex justify-between items-center">
+                              <span className="text-sm font-medium text-white/80">Subtitles</span>
+                              <button onClick={onToggleSubtitles} className={`text-xs font-bold ${subtitlesEnabled ? 'text-primary' : 'text-white/40'}`}>{subtitlesEnabled ? 'On' : 'Off'}</button>
+                          </div>
+
+                          {subtitleTracks.length > 1 && (
+                              <div className="space-y-1">
+                                  {subtitleTracks.map(track => (
+                                      <button key={track.id} onClick={() => onSelectSubtitleTrack(track.id)} className="w-full text-left px-3 py-2 text-xs text-white/80 bg-black/20 hover:bg-white/5 rounded-lg transition flex justify-between items-center">
+                                          <span className="truncate">{track.label}{track.language ? ` (${track.language})` : ''}</span>
+                                          {track.id === activeSubtitleTrackId && <Icons.Check className="w-4 h-4 text-primary flex-shrink-0" />}
+                                      </button>
+                                  ))}
+                              </div>
+                          )}
+
+                          <div className="space-y-1">
+                              <div className="flex justify-between text-xs text-white/60">
+                                  <span>Delay</span>
+                                  <span className="font-mono text-primary">{subtitleDelay > 0 ? '+' : ''}{subtitleDelay.toFixed(1)}s</span>
+                              </div>
+                              <input 
+                                  type="range" min={-MAX_SUBTITLE_DELAY} max={MAX_SUBTITLE_DELAY} step="0.1" 
+                                  value={subtitleDelay} 
+                                  onChange={(e) => onSubtitleDelayChange(parseFloat(e.target.value))}
+                                  className="w-full accent-primary h-1 bg-white/20 rounded-full appearance-none cursor-pointer"
+                              />
+                              <div className="flex justify-between text-[10px] text-white/40 font-mono">
+                                  <button onClick={() => onSubtitleDelayChange(subtitleDelay - 0.1)} className="hover:text-white">-0.1s</button>
+                                  <button onClick={() => onSubtitleDelayChange(0)} className="hover:text-white">Reset</button>
+                                  <button onClick={() => onSubtitleDelayChange(subtitleDelay + 0.1)} className="hover:text-white">+0.1s</button>
+                              </div>
+                          </div>
+
+                          <div className="space-y-1">
+                              <div className="flex justify-between text-xs text-white/60">
+                                  <span>Font Size</span>
+                                  <span>{Math.round(subtitleStyle.fontScale * 100)}%</span>
+                              </div>
+                              <input 
+                                  type="range" min="0.5" max="2" step="0.1" 
+                                  value={subtitleStyle.fontScale} 
+                                  onChange={(e) => onSubtitleStyleChange({ ...subtitleStyle, fontScale: parseFloat(e.target.value) })}
+                                  className="w-full accent-white/50 h-1 bg-white/10 rounded-full appearance-none"
+                              />
+                          </div>
+
+                          <div className="space-y-1">
+                              <div className="flex justify-between text-xs text-white/60">
+                                  <span>Background</span>
+                                  <span>{Math.round(subtitleStyle.backgroundOpacity * 100)}%</span>
+                              </div>
+                              <input 
+                                  type="range" min="0" max="1" step="0.05" 
+                                  value={subtitleStyle.backgroundOpacity} 
+                                  onChange={(e) => onSubtitleStyleChange({ ...subtitleStyle, backgroundOpacity: parseFloat(e.target.value) })}
+                                  className="w-full accent-white/50 h-1 bg-white/10 rounded-full appearance-none"
+                              />
+                          </div>
+
+                          <div className="space-y-1">
+                              <div className="flex justify-between text-xs text-white/60">
+                                  <span>Position</span>
+                                  <span>{subtitleStyle.position}%</span>
+                              </div>
+                              <input 
+                                  type="range" min="0" max="80" step="1" 
+                                  value={subtitleStyle.position} 
+                                  onChange={(e) => onSubtitleStyleChange({ ...subtitleStyle, position: parseInt(e.target.value, 10) })}
+                                  className="w-full accent-white/50 h-1 bg-white/10 rounded-full appearance-none"
+                              />
+                          </div>
+
+                          <div className="flex items-center justify-between">
+                              <div className="flex gap-2">
+                                  {SUBTITLE_COLORS.map(color => (
+                                      <button key={color} onClick={() => onSubtitleStyleChange({ ...subtitleStyle, color })} className={`w-6 h-6 rounded-full border-2 ${subtitleStyle.color === color ? 'border-primary' : 'border-transparent'}`} style={{ backgroundColor: color }} />
+                                  ))}
+                              </div>
+                              <button onClick={() => onSubtitleStyleChange(DEFAULT_SUBTITLE_STYLE)} className="text-[10px] text-white/40 hover:text-white">Reset</button>
+                          </div>
+                      </div>
+                  )}
+
+                  {/* A-B Loop */}
+                  <div className="bg-white/5 p-4 rounded-xl space-y-3">
+                      <div className="flex justify-between items-center">
+                          <span className="text-sm font-medium text-white/80">A-B Loop</span>
+                          {loopRange && <span className="text-xs font-mono text-primary">{formatTime(loopRange.start)} - {formatTime(loopRange.end)}</span>}
+                      </div>
+                      <div className="grid grid-cols-3 gap-2">
+                          <button onClick={() => onSetLoopPoint('a')} className="py-2 text-xs text-white/80 bg-black/20 hover:bg-white/5 rounded-lg transition">Set A</button>
+                          <button onClick={() => onSetLoopPoint('b')} className="py-2 text-xs text-white/80 bg-black/20 hover:bg-white/5 rounded-lg transition">Set B</button>
+                          <button onClick={onClearLoop} disabled={!loopRange && loopStart === null} className="py-2 text-xs text-red-400 bg-black/20 hover:bg-white/5 rounded-lg transition disabled:opacity-30">Clear</button>
+                      </div>
+                      {loopRange && (
+                          <>
+                              <div className="space-y-1">
+                                  <span className="text-xs text-white/60">Repeat</span>
+                                  <div className="flex bg-black/20 rounded-lg p-1">
+                                      {LOOP_REPEAT_OPTIONS.map(n => (
+                                          <button key={n} onClick={() => onLoopOptionsChange({ repeats: n, gap: loopRange.gap })} className={`flex-1 py-1 text-xs rounded transition ${loopRange.repeats === n ? 'bg-primary text-black font-bold' : 'text-white/60'}`}>{n === 0 ? '∞' : `${n}x`}</button>
+                                      ))}
+                                  </div>
+                              </div>
+                              <div className="space-y-1">
+                                  <span className="text-xs text-white/60">Pause Between Repeats</span>
+                                  <div className="flex bg-black/20 rounded-lg p-1">
+                                      {LOOP_GAP_OPTIONS.map(s => (
+                                          <button key={s} onClick={() => onLoopOptionsChange({ repeats: loopRange.repeats, gap: s })} className={`flex-1 py-1 text-xs rounded transition ${loopRange.gap === s ? 'bg-primary text-black font-bold' : 'text-white/60'}`}>{s === 0 ? 'None' : `${s}s`}</button>
+                                      ))}
+                                  </div>
+                              </div>
+                          </>
+                      )}
+                  </div>
+
                   {/* Actions Grid */}
                   <div className="grid grid-cols-2 gap-3">
-                      <button onClick={onToggleFit} className="flex flex-col items-center justify-center p-3 bg-white/5 rounded-xl hover:bg-white/10 transition gap-2">
-                          <Icons.Maximize className="w-5 h-5 text-white/80" />
-                          <span className="text-xs text-white/60 capitalize">{videoFit}</span>
-                      </button>
+                      {!isAudio && (
+                          <button onClick={onToggleFit} className="flex flex-col items-center justify-center p-3 bg-white/5 rounded-xl hover:bg-white/10 transition gap-2">
+                              <Icons.Maximize className="w-5 h-5 text-white/80" />
+                              <span className="text-xs text-white/60 capitalize">{videoFit}</span>
+                          </button>
+                      )}
                       <button onClick={onToggleLoop} className={`flex flex-col items-center justify-center p-3 rounded-xl transition gap-2 ${isLooping ? 'bg-primary/20 text-primary' : 'bg-white/5 text-white/60 hover:bg-white/10'}`}>
                           <Icons.Repeat className="w-5 h-5" />
                           <span className="text-xs">Loop</span>
                       </button>
-                      <button onClick={onRotate} className="flex flex-col items-center justify-center p-3 bg-white/5 rounded-xl hover:bg-white/10 transition gap-2">
-                          <Icons.Rotate className="w-5 h-5 text-white/80" />
-                          <span className="text-xs text-white/60">Rotate</span>
-                      </button>
-                      <button onClick={onScreenshot} className="flex flex-col items-center justify-center p-3 bg-white/5 rounded-xl hover:bg-white/10 transition gap-2">
-                          <Icons.Camera className="w-5 h-5 text-white/80" />
-                          <span className="text-xs text-white/60">Screenshot</span>
-                      </button>
+                      {!isAudio && (
+                          <>
+                              <button onClick={onRotate} className="flex flex-col items-center justify-center p-3 bg-white/5 rounded-xl hover:bg-white/10 transition gap-2">
+                                  <Icons.Rotate className="w-5 h-5 text-white/80" />
+                                  <span className="text-xs text-white/60">Rotate</span>
+                              </button>
+                              <button onClick={onScreenshot} className="flex flex-col items-center justify-center p-3 bg-white/5 rounded-xl hover:bg-white/10 transition gap-2">
+                                  <Icons.Camera className="w-5 h-5 text-white/80" />
+                                  <span className="text-xs text-white/60">Screenshot</span>
+                              </button>
+                          </>
+                      )}
                       <button onClick={onLoadSubtitle} className="flex flex-col items-center justify-center p-3 bg-white/5 rounded-xl hover:bg-white/10 transition gap-2 col-span-2">
                           <Icons.Subtitles className="w-5 h-5 text-white/80" />
                           <span className="text-xs text-white/60">Load Subtitles</span>
@@ -245,6 +543,24 @@ export const PlayerControls: React.FC<PlayerControlsProps> = ({
                       <div className="absolute top-0 left-0 h-full bg-primary" style={{ width: `${progressPercent}%` }} />
                   </div>
               </div>
+              {/* A-B Loop Range */}
+              {duration > 0 && loopRange && (
+                  <div
+                    className="absolute top-1/2 -translate-y-1/2 h-2.5 bg-primary/30 border-x-2 border-primary rounded-sm pointer-events-none"
+                    style={{ left: `${(loopRange.start / duration) * 100}%`, width: `${((loopRange.end - loopRange.start) / duration) * 100}%` }}
+                  />
+              )}
+              {duration > 0 && loopStart !== null && (
+                  <div className="absolute top-1/2 -translate-y-1/2 w-0.5 h-3 bg-primary pointer-events-none" style={{ left: `${(loopStart / duration) * 100}%` }} />
+              )}
+              {/* Chapter & Bookmark Ticks */}
+              {duration > 0 && markers.map(marker => (
+                  <div
+                    key={marker.id}
+                    className={`absolute top-1/2 -translate-y-1/2 w-1 h-2.5 rounded-sm pointer-events-none ${marker.kind === 'bookmark' ? 'bg-yellow-400' : 'bg-white/80'}`}
+                    style={{ left: `${Math.min(100, (marker.time / duration) * 100)}%`, marginLeft: '-2px' }}
+                  />
+              ))}
               {/* Thumb */}
               <div 
                 className="absolute w-3 h-3 bg-white rounded-full shadow-lg scale-0 group-hover:scale-100 transition-transform" 
@@ -253,8 +569,19 @@ export const PlayerControls: React.FC<PlayerControlsProps> = ({
               
               {/* Time Tooltip on Drag */}
               {isDragging && (
-                  <div className="absolute bottom-6 -translate-x-1/2 bg-white text-black text-xs font-bold px-2 py-1 rounded" style={{ left: `${progressPercent}%` }}>
-                      {formatTime(dragTime)}
+                  <div className="absolute bottom-6 -translate-x-1/2 flex flex-col items-center gap-1 pointer-events-none" style={{ left: storyboard ? `clamp(${storyboard.frameWidth / 2}px, ${progressPercent}%, calc(100% - ${storyboard.frameWidth / 2}px))` : `${progressPercent}%` }}>
+                      {storyboard && storyboardUrl && (() => {
+                          const { x, y } = storyboardFrameAt(storyboard, dragTime);
+                          return (
+                              <div
+                                className="rounded-md border border-white/20 shadow-2xl bg-black"
+                                style={{ width: storyboard.frameWidth, height: storyboard.frameHeight, backgroundImage: `url(${storyboardUrl})`, backgroundPosition: `-${x}px -${y}px` }}
+                              />
+                          );
+                      })()}
+                      <div className="bg-white text-black text-xs font-bold px-2 py-1 rounded max-w-[160px] truncate">
+                          {formatTimeAs(dragTime, timeDisplay, frameRate)}{dragMarker && <span className="font-normal"> · {dragMarker.label}</span>}
+                      </div>
                   </div>
               )}
           </div>
@@ -269,16 +596,28 @@ export const PlayerControls: React.FC<PlayerControlsProps> = ({
                       </button>
                       <button onClick={onNext} className="p-2 text-white/70 hover:text-white disabled:opacity-30" disabled={!onNext}><Icons.Forward10 className="w-5 h-5" /></button>
                   </div>
+
+                  {!playing && !isAudio && (
+                      <div className="flex items-center">
+                          <button onClick={() => onStepFrame(-1)} className="p-1.5 text-white/70 hover:text-white" title="Previous frame (,)"><Icons.StepBack className="w-4 h-4" /></button>
+                          <button onClick={() => onStepFrame(1)} className="p-1.5 text-white/70 hover:text-white" title="Next frame (.)"><Icons.StepForward className="w-4 h-4" /></button>
+                      </div>
+                  )}
                   
-                  <div className="text-xs font-mono font-medium text-white/80 bg-black/30 px-2 py-1 rounded-md backdrop-blur-md">
-                      {formatTime(currentTime)} / {formatTime(duration)}
+                  <div className="flex items-center text-xs font-mono font-medium text-white/80 bg-black/30 rounded-md backdrop-blur-md">
+                      <button onClick={onCycleTimeDisplay} className="px-2 py-1 hover:text-white" title={timeDisplay === 'frames' && !frameRateKnown ? `Time format (D) · assuming ${frameRate} fps until the rate is measured` : 'Time format (D)'}>
+                          {timeDisplay === 'frames' && (frameRateKnown ? 'F ' : '~F ')}{formatTimeAs(currentTime, timeDisplay, frameRate)} / {formatTimeAs(duration, timeDisplay, frameRate)}
+                      </button>
+                      <button onClick={onGoToTime} className="pr-2 py-1 text-white/50 hover:text-white" title="Go to time (T)"><Icons.Clock className="w-3.5 h-3.5" /></button>
                   </div>
               </div>
 
               <div className="flex items-center gap-3">
                    <button onClick={onToggleLock} className="p-2 text-white/70 hover:text-white hover:bg-white/10 rounded-full"><Icons.Unlock className="w-5 h-5" /></button>
+                   <button onClick={onToggleSubtitles} className={`p-2 rounded-full hover:bg-white/10 transition ${hasSubtitles && subtitlesEnabled ? 'text-primary' : 'text-white/70'}`} title="Subtitles (C)"><Icons.Subtitles className="w-5 h-5" /></button>
+                   <button onClick={onCycleLoop} className={`px-1.5 py-0.5 text-xs font-bold rounded transition ${loopRange ? 'bg-primary/20 text-primary' : loopStart !== null ? 'text-primary' : 'text-white/70 hover:text-white'}`} title="A-B Loop (A)">{loopStart !== null ? 'A-' : 'A-B'}</button>
                    <button onClick={cycleSpeed} className="w-10 text-xs font-bold text-white/90 hover:text-primary transition">{playbackRate}x</button>
-                   <button onClick={onResetZoom} className={`p-2 rounded-full hover:bg-white/10 transition ${state.scale !== 1 ? 'text-primary' : 'text-white/70'}`}><Icons.Maximize className="w-5 h-5" /></button>
+                   {!isAudio && <button onClick={onResetZoom} className={`p-2 rounded-full hover:bg-white/10 transition ${state.scale !== 1 ? 'text-primary' : 'text-white/70'}`}><Icons.Maximize className="w-5 h-5" /></button>}
               </div>
           </div>
       </div>
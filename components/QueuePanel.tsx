@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { VideoFile } from '../types';
+import { Icons } from './Icons';
+
+interface QueuePanelProps {
+  queue: VideoFile[];
+  currentId: string;
+  shuffle: boolean;
+  repeatAll: boolean;
+  onSelect: (video: VideoFile) => void;
+  onReorder: (from: number, to: number) => void;
+  onRemove: (id: string) => void;
+  onToggleShuffle: () => void;
+  onToggleRepeat: () => void;
+  onClose: () => void;
+}
+
+// Stops taps inside the panel from reaching the player's gesture handlers
+const stop = (e: React.SyntheticEvent) => e.stopPropagation();
+
+export const QueuePanel: React.FC<QueuePanelProps> = ({
+  queue,
+  currentId,
+  shuffle,
+  repeatAll,
+  onSelect,
+  onReorder,
+  onRemove,
+  onToggleShuffle,
+  onToggleRepeat,
+  onClose
+}) => {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [overIndex, setOverIndex] = useState<number | null>(null);
+
+  return (
+    <div
+      className="absolute right-0 top-0 bottom-0 w-full sm:w-80 bg-[#1E1E1E]/95 backdrop-blur-xl border-l border-white/10 shadow-2xl flex flex-col animate-fade-in z-50"
+      onMouseDown={stop} onMouseUp={stop} onMouseMove={stop} onTouchStart={stop} onTouchMove={stop} onTouchEnd={stop}
+    >
+      <div className="flex items-center justify-between p-4 border-b border-white/10">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2"><Icons.ListVideo className="w-5 h-5 text-primary"/> Up Next</h3>
+          <div className="flex items-center gap-1">
+              <button onClick={onToggleShuffle} className={`p-2 rounded-full hover:bg-white/10 transition ${shuffle ? 'text-primary' : 'text-white/50'}`} title="Shuffle"><Icons.Shuffle className="w-4 h-4" /></button>
+              <button onClick={onToggleRepeat} className={`p-2 rounded-full hover:bg-white/10 transition ${repeatAll ? 'text-primary' : 'text-white/50'}`} title="Repeat All"><Icons.Repeat className="w-4 h-4" /></button>
+              <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full"><Icons.Close className="w-5 h-5 text-white"/></button>
+          </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1 no-scrollbar">
+          {queue.map((video, i) => {
+              const isCurrent = video.id === currentId;
+              return (
+                  <div
+                      key={video.id}
+                      draggable
+                      onDragStart={() => setDragIndex(i)}
+                      onDragOver={(e) => { e.preventDefault(); setOverIndex(i); }}
+                      onDrop={(e) => {
+                          e.preventDefault();
+                          if (dragIndex !== null && dragIndex !== i) onReorder(dragIndex, i);
+                          setDragIndex(null);
+                          setOverIndex(null);
+                      }}
+                      onDragEnd={() => { setDragIndex(null); setOverIndex(null); }}
+                      className={`flex items-center gap-2 px-2 py-2 rounded-lg cursor-grab transition ${isCurrent ? 'bg-primary/15' : 'hover:bg-white/5'} ${overIndex === i && dragIndex !== i ? 'ring-1 ring-primary' : ''} ${dragIndex === i ? 'opacity-40' : ''}`}
+                  >
+                      <Icons.GripVertical className="w-4 h-4 text-white/20 flex-shrink-0" />
+                      <button onClick={() => onSelect(video)} className="flex-1 min-w-0 text-left">
+                          <span className={`block text-sm truncate ${isCurrent ? 'text-primary font-medium' : 'text-white/80'}`}>{video.name}</span>
+                      </button>
+                      {!isCurrent && (
+                          <button onClick={() => onRemove(video.id)} className="p-1 text-white/30 hover:text-red-400 transition"><Icons.Close className="w-4 h-4" /></button>
+                      )}
+                  </div>
+              );
+          })}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { ShortcutAction, ShortcutBindings, ShortcutDefinition, ShortcutScope } from '../types';
+import { SHORTCUTS } from '../constants';
+import { Icons } from './Icons';
+import { Keycap, SCOPE_LABELS } from './ShortcutsOverlay';
+import { captureCombo, findConflict, formatCombo, isModifierKey, isReservedCombo, resolveBindings, withBinding } from '../utils/shortcuts';
+
+interface ShortcutSettingsProps {
+  overrides: ShortcutBindings;
+  onChange: (overrides: ShortcutBindings) => void;
+}
+
+const SCOPES: ShortcutScope[] = ['global', 'player', 'library'];
+
+export const ShortcutSettings: React.FC<ShortcutSettingsProps> = ({ overrides, onChange }) => {
+  const [capturing, setCapturing] = useState<ShortcutAction | null>(null);
+  const [pending, setPending] = useState<{ action: ShortcutAction; combo: string; conflict: ShortcutDefinition } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const bindings = resolveBindings(overrides);
+
+  const assign = (action: ShortcutAction, combo: string, conflict?: ShortcutDefinition) => {
+    let next = overrides;
+    if (conflict) next = withBinding(next, conflict.action, bindings[conflict.action].filter(k => k !== combo));
+    onChange(withBinding(next, action, [...bindings[action], combo]));
+    setPending(null);
+  };
+
+  const capture = (action: ShortcutAction, scope: ShortcutScope) => (e: React.KeyboardEvent) => {
+    // Keep the keystroke away from the library and player shortcut handlers
+    e.preventDefault();
+    e.stopPropagation();
+    if (isModifierKey(e.code)) return;
+    setCapturing(null);
+    if (e.key === 'Escape' && !e.ctrlKey && !e.altKey && !e.shiftKey && !e.metaKey) return;
+
+    const combo = captureCombo(e);
+    if (isReservedCombo(combo, scope)) {
+      setError('Number keys are reserved for jumping through the video');
+      return;
+    }
+    if (bindings[action].includes(combo)) return;
+    const conflict = findConflict(bindings, action, combo);
+    if (conflict) setPending({ action, combo, conflict });
+    else assign(action, combo);
+  };
+
+  return (
+    <div className="space-y-4 bg-white/5 p-4 rounded-xl border border-white/5 text-xs">
+        <div className="flex justify-between items-center">
+            <p className="text-white/40">Click + and press the new key combination. Esc cancels.</p>
+            <button onClick={() => onChange({})} disabled={Object.keys(overrides).length === 0} className="flex-shrink-0 text-white/40 hover:text-white disabled:opacity-30">Reset All</button>
+        </div>
+        {error && <p className="text-red-400">{error}</p>}
+        {SCOPES.map(scope => (
+            <div key={scope} className="space-y-1">
+                <h4 className="font-bold text-white/40 uppercase tracking-wider text-[10px]">{SCOPE_LABELS[scope]}</h4>
+                {SHORTCUTS.filter(d => d.scope === scope).map(d => (
+                    <div key={d.action} className="py-1 border-b border-white/5 last:border-0">
+                        <div className="flex items-center justify-between gap-2">
+                            <span className="text-white/70">{d.label}</span>
+                            <div className="flex items-center gap-1 flex-wrap justify-end">
+                                {bindings[d.action].map(combo => (
+                                    <span key={combo} className="flex items-center">
+                                        <Keycap>{formatCombo(combo)}</Keycap>
+                                        <button onClick={() => onChange(withBinding(overrides, d.action, bindings[d.action].filter(k => k !== combo)))} className="px-0.5 text-white/30 hover:text-red-400" title="Remove">
+                                            <Icons.Close className="w-3 h-3" />
+                                        </button>
+                                    </span>
+                                ))}
+                                <button
+                                    onClick={() => { setCapturing(d.action); setPending(null); setError(null); }}
+                                    onKeyDown={capturing === d.action ? capture(d.action, scope) : undefined}
+                                    onBlur={() => setCapturing(prev => prev === d.action ? null : prev)}
+                                    className={`px-1.5 py-0.5 rounded border transition ${capturing === d.action ? 'border-primary text-primary animate-pulse' : 'border-white/10 text-white/40 hover:text-white'}`}
+                                >
+                                    {capturing === d.action ? 'Press a key' : '+'}
+                                </button>
+                                {overrides[d.action] && (
+                                    <button onClick={() => onChange(withBinding(overrides, d.action, d.keys))} className="text-[10px] text-white/40 hover:text-white ml-1">Reset</button>
+                                )}
+                            </div>
+                        </div>
+                        {pending?.action === d.action && (
+                            <div className="flex items-center justify-between gap-2 mt-1 p-2 bg-black/20 rounded">
+                                <span className="text-yellow-400">{formatCombo(pending.combo)} is used by {pending.conflict.label}</span>
+                                <div className="flex gap-2 flex-shrink-0">
+                                    <button onClick={() => assign(pending.action, pending.combo, pending.conflict)} className="px-2 py-0.5 bg-primary text-black font-bold rounded">Replace</button>
+                                    <button onClick={() => setPending(null)} className="text-white/40 hover:text-white">Cancel</button>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                ))}
+            </div>
+        ))}
+    </div>
+  );
+};
@@ -0,0 +1,72 @@
+import React, { useEffect } from 'react';
+import { ShortcutAction, ShortcutScope } from '../types';
+import { SHORTCUTS } from '../constants';
+import { Icons } from './Icons';
+import { formatCombo } from '../utils/shortcuts';
+
+export const SCOPE_LABELS: Record<ShortcutScope, string> = {
+  global: 'General',
+  player: 'Player',
+  library: 'Library'
+};
+
+export const Keycap: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <kbd className="px-1.5 py-0.5 min-w-[1.5rem] text-center text-[11px] font-mono text-white/80 bg-white/10 border border-white/10 rounded">{children}</kbd>
+);
+
+interface ShortcutsOverlayProps {
+  bindings: Record<ShortcutAction, string[]>;
+  scope: ShortcutScope; // Listed first, the other scope's section is dimmed
+  onClose: () => void;
+}
+
+// Stops taps inside the overlay from reaching the player's gesture handlers
+const stop = (e: React.SyntheticEvent) => e.stopPropagation();
+
+export const ShortcutsOverlay: React.FC<ShortcutsOverlayProps> = ({ bindings, scope, onClose }) => {
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => { if (e.key === 'Escape') onClose(); };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [onClose]);
+
+  const scopes: ShortcutScope[] = scope === 'library' ? ['global', 'library', 'player'] : ['global', 'player', 'library'];
+
+  return (
+    <div
+      className="fixed inset-0 z-[60] flex items-center justify-center bg-black/70 backdrop-blur-sm animate-fade-in p-4"
+      onMouseDown={stop} onMouseUp={stop} onTouchStart={stop} onTouchEnd={stop}
+      onClick={onClose}
+    >
+      <div onClick={stop} className="bg-[#1E1E1E] border border-white/10 rounded-2xl shadow-2xl w-full max-w-2xl max-h-full flex flex-col">
+          <div className="flex items-center justify-between p-4 border-b border-white/10">
+              <h3 className="text-lg font-bold text-white">Keyboard Shortcuts</h3>
+              <button onClick={onClose} className="p-2 hover:bg-white/10 rounded-full"><Icons.Close className="w-5 h-5 text-white" /></button>
+          </div>
+          <div className="overflow-y-auto p-4 grid sm:grid-cols-2 gap-x-8 gap-y-6 no-scrollbar">
+              {scopes.map(s => (
+                  <div key={s} className={`space-y-1 ${s !== 'global' && s !== scope ? 'opacity-50' : ''}`}>
+                      <h4 className="text-xs font-bold text-white/40 uppercase tracking-wider mb-2">{SCOPE_LABELS[s]}</h4>
+                      {SHORTCUTS.filter(d => d.scope === s).map(d => (
+                          <div key={d.action} className="flex items-center justify-between gap-4 py-1 text-sm">
+                              <span className="text-white/70">{d.label}</span>
+                              <span className="flex gap-1 flex-wrap justify-end">
+                                  {bindings[d.action].length > 0
+                                      ? bindings[d.action].map(combo => <Keycap key={combo}>{formatCombo(combo)}</Keycap>)
+                                      : <span className="text-xs text-white/30">Unassigned</span>}
+                              </span>
+                          </div>
+                      ))}
+                      {s === 'player' && (
+                          <div className="flex items-center justify-between gap-4 py-1 text-sm">
+                              <span className="text-white/70">Jump to 0 - 90%</span>
+                              <span className="flex gap-1"><Keycap>0</Keycap><span className="text-white/30">-</span><Keycap>9</Keycap></span>
+                          </div>
+                      )}
+                  </div>
+              ))}
+          </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,39 @@
+import React, { useMemo } from 'react';
+import { SubtitleCue, SubtitleStyle } from '../types';
+import { getActiveCues } from '../utils/subtitles';
+
+interface SubtitleOverlayProps {
+  cues: SubtitleCue[];
+  currentTime: number;
+  delay: number;
+  subtitleStyle: SubtitleStyle;
+  controlsVisible: boolean;
+}
+
+export const SubtitleOverlay: React.FC<SubtitleOverlayProps> = ({ cues, currentTime, delay, subtitleStyle, controlsVisible }) => {
+  const active = useMemo(() => getActiveCues(cues, currentTime - delay), [cues, currentTime, delay]);
+
+  if (active.length === 0) return null;
+
+  return (
+    <div
+      className="absolute inset-x-0 z-30 flex flex-col items-center gap-1 px-6 pointer-events-none transition-all duration-300"
+      style={{ bottom: `calc(${subtitleStyle.position}% + ${controlsVisible ? '5rem' : '0px'})` }}
+    >
+      {active.map((cue, i) => (
+        <div
+          key={`${cue.start}-${i}`}
+          className="max-w-3xl text-center font-medium leading-snug whitespace-pre-line px-3 py-1 rounded-md"
+          style={{
+            fontSize: `calc(clamp(14px, 2.6vw, 28px) * ${subtitleStyle.fontScale})`,
+            color: subtitleStyle.color,
+            backgroundColor: `rgba(0, 0, 0, ${subtitleStyle.backgroundOpacity})`,
+            textShadow: '0 1px 3px rgba(0, 0, 0, 0.9)'
+          }}
+        >
+          {cue.text}
+        </div>
+      ))}
+    </div>
+  );
+};
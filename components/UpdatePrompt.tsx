@@ -0,0 +1,34 @@
+import React from 'react';
+import { useRegisterSW } from 'virtual:pwa-register/react';
+import { Icons } from './Icons';
+
+// The service worker waits with a new build until the user reloads, so playback is never cut off mid-video
+export const UpdatePrompt: React.FC = () => {
+  const {
+    needRefresh: [needRefresh, setNeedRefresh],
+    offlineReady: [offlineReady, setOfflineReady],
+    updateServiceWorker
+  } = useRegisterSW({
+    onRegisterError: e => console.warn("Service worker registration failed", e)
+  });
+
+  if (!needRefresh && !offlineReady) return null;
+
+  const dismiss = () => {
+    setNeedRefresh(false);
+    setOfflineReady(false);
+  };
+
+  return (
+    <div className="fixed top-4 left-1/2 -translate-x-1/2 z-[70] w-full max-w-sm px-4 animate-fade-in">
+      <div className="bg-[#252525] border border-white/10 text-white px-4 py-3 rounded-xl shadow-2xl flex items-center gap-3 backdrop-blur-md">
+        <div className="w-2 h-2 rounded-full bg-primary flex-shrink-0" />
+        <span className="text-sm font-medium flex-1">{needRefresh ? 'A new version is available' : 'Ready to work offline'}</span>
+        {needRefresh && (
+          <button onClick={() => updateServiceWorker(true)} className="px-3 py-1 bg-primary text-black text-xs font-bold rounded-lg">Reload</button>
+        )}
+        <button onClick={dismiss} className="p-1 text-white/40 hover:text-white"><Icons.Close className="w-4 h-4" /></button>
+      </div>
+    </div>
+  );
+};
@@ -1,24 +1,63 @@
-import React, { useState, useMemo, useEffect } from 'react';
-import { VideoFile, SortOption, GlobalSettings, NavTab } from '../types';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import { VideoFile, SortOption, GlobalSettings, NavTab, Playlist, WatchProgress, Marker, SheetField, SheetColumnMapping, SourceIssue, RemoteSource, SourceCacheEntry, DownloadProgress, OfflineMedia, RestoreMode, LibraryAction } from '../types';
+import { SHEET_COLUMN_ALIASES, SOURCE_CACHE_TTL_OPTIONS } from '../constants';
 import { Icons } from './Icons';
+import { folderOf } from '../utils/localLibrary';
+import { progressRatio, isInProgress } from '../utils/progress';
+import { formatTime } from '../utils/time';
+import { canCaptureFrames, getThumbnail } from '../utils/thumbnails';
+import { loadAudioAnalysis } from '../utils/waveform';
+import { formatAge } from '../utils/sourceCache';
+import { canDownload, getStorageEstimate } from '../utils/downloads';
+import { resolveBindings, matchShortcut, isTypingTarget } from '../utils/shortcuts';
+import { ShortcutsOverlay } from './ShortcutsOverlay';
+import { ShortcutSettings } from './ShortcutSettings';
 
 interface VideoListProps {
   videos: VideoFile[];
   favorites: string[];
   history: string[];
-  progressHistory: Record<string, number>;
+  progressHistory: Record<string, WatchProgress>;
+  bookmarks: Record<string, Marker[]>;
   settings: GlobalSettings;
   loadingSheets?: boolean;
+  sourceCache: Record<string, SourceCacheEntry>;
+  refreshingSources: string[];
   activeTab: NavTab;
   setActiveTab: (tab: NavTab) => void;
   onSettingsChange: (settings: GlobalSettings) => void;
-  onSelect: (video: VideoFile) => void;
+  onSelect: (video: VideoFile, list?: VideoFile[]) => void;
+  playlists: Playlist[];
+  queue: VideoFile[];
+  upNext?: VideoFile; // Same pick as the player's Next button
+  onPlayNext: (video: VideoFile) => void;
+  onAddToQueue: (video: VideoFile) => void;
+  onClearQueue: () => void;
+  onCreatePlaylist: (name: string, videoIds?: string[]) => void;
+  onDeletePlaylist: (id: string) => void;
+  onAddToPlaylist: (playlistId: string, videoId: string) => void;
+  onRemoveFromPlaylist: (playlistId: string, videoId: string) => void;
   onImport: (e: React.ChangeEvent<HTMLInputElement>) => void;
+  onPickFiles?: () => void;
+  onPickFolder?: () => void;
+  pendingLocalCount: number;
+  onRestoreAccess: () => void;
+  onDeleteLocal: (id: string) => void;
   onAddNetworkStream: (url: string, name: string) => void;
   onToggleFavorite: (id: string, e: React.MouseEvent) => void;
   onDeleteStream?: (id: string) => void;
   onClearData: () => void;
+  onExportBackup: () => void;
+  onRestoreBackup: (file: File, mode: RestoreMode) => void;
   onRefresh: () => void;
+  downloads: Record<string, DownloadProgress>;
+  offlineMedia: OfflineMedia[];
+  onDownload: (video: VideoFile) => void;
+  onPauseDownload: (id: string) => void;
+  onResumeDownload: (id: string) => void;
+  onCancelDownload: (id: string) => void;
+  onRemoveOffline: (id: string) => void;
+  miniPlayerOpen?: boolean; // Leaves room below the grid for the docked player
 }
 
 const THEME_COLORS = [
@@ -29,46 +68,95 @@ const THEME_COLORS = [
   { name: 'Amber', value: '#F59E0B' },
 ];
 
+const SHEET_FIELD_LABELS: Record<SheetField, string> = {
+  name: 'Name',
+  url: 'URL',
+  thumbnail: 'Thumbnail',
+  type: 'MIME Type',
+  duration: 'Duration',
+  tags: 'Category / Tags',
+  description: 'Description',
+  subtitleUrl: 'Subtitle URL',
+  chapters: 'Chapters'
+};
+
+const SOURCE_LABELS: Record<VideoFile['sourceType'], string> = {
+  local: 'Local Files',
+  stream: 'Network Streams',
+  googlesheet: 'Online DB',
+  json: 'JSON Catalogs',
+  m3u: 'M3U Playlists',
+  rss: 'Feeds'
+};
+
+// Card badge for each remote catalog kind
+const SOURCE_BADGES: Partial<Record<VideoFile['sourceType'], { label: string; className: string }>> = {
+  googlesheet: { label: 'CLOUD', className: 'bg-green-600/90' },
+  json: { label: 'JSON', className: 'bg-teal-600/90' },
+  m3u: { label: 'IPTV', className: 'bg-indigo-600/90' },
+  rss: { label: 'FEED', className: 'bg-orange-600/90' }
+};
+
+const REMOTE_SOURCE_KINDS: { value: RemoteSource['kind']; label: string }[] = [
+  { value: undefined, label: 'Auto' },
+  { value: 'json', label: 'JSON' },
+  { value: 'm3u', label: 'M3U' },
+  { value: 'rss', label: 'RSS / Atom' }
+];
+
+// Remote videos group under their tab or catalog title, everything else under its source type
+const sourceGroupOf = (video: VideoFile): string => video.sheetName || SOURCE_LABELS[video.sourceType];
+
+const toMB = (bytes: number): string => (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+
+const formatTtl = (minutes: number): string => minutes < 60 ? `${minutes}m` : minutes < 1440 ? `${minutes / 60}h` : `${minutes / 1440}d`;
+
+// Last fetch, item count, last error and skipped entries for one remote source
+const SourceStatus: React.FC<{ entry?: SourceCacheEntry; refreshing: boolean; describeIssue: (issue: SourceIssue) => string }> = ({ entry, refreshing, describeIssue }) => (
+  <div className="space-y-1">
+      <p className="text-[10px] text-white/40">
+          {refreshing ? 'Refreshing...' : entry?.fetchedAt ? `Fetched ${formatAge(entry.fetchedAt)}` : 'Not fetched yet'}
+          {entry && entry.fetchedAt > 0 && ` · ${entry.videos.length} items`}
+      </p>
+      {entry?.error && <p className="text-[10px] text-red-400 break-words">Last error: {entry.error}</p>}
+      {entry && entry.skipped.length > 0 && (
+          <details className="text-red-300/80">
+              <summary className="cursor-pointer">{entry.skipped.length} entries skipped</summary>
+              <ul className="mt-1 space-y-0.5 max-h-24 overflow-y-auto no-scrollbar">
+                  {entry.skipped.map(issue => <li key={`${issue.tab}-${issue.row}`}>{describeIssue(issue)}</li>)}
+              </ul>
+          </details>
+      )}
+  </div>
+);
+
 const VideoThumbnail: React.FC<{ video: VideoFile }> = ({ video }) => {
   const [thumbnail, setThumbnail] = useState<string | null>(video.thumbnail || null);
   const isAudio = video.type.startsWith('audio');
 
   useEffect(() => {
     if (video.thumbnail) { setThumbnail(video.thumbnail); return; }
-    if (video.sourceType === 'googlesheet' && !video.thumbnail) return;
-    if (video.size === 0 && video.sourceType !== 'local') return;
-    if (thumbnail || isAudio) return;
-
-    const generate = async () => {
-      const v = document.createElement('video');
-      v.src = video.url;
-      v.crossOrigin = "anonymous";
-      v.muted = true;
-      v.preload = "metadata";
-      v.currentTime = 2; 
-
-      v.onloadeddata = () => { v.currentTime = 5; };
-      v.onseeked = () => {
-        try {
-          const canvas = document.createElement('canvas');
-          canvas.width = 320;
-          canvas.height = 180;
-          const ctx = canvas.getContext('2d');
-          if (ctx) {
-             ctx.drawImage(v, 0, 0, canvas.width, canvas.height);
-             setThumbnail(canvas.toDataURL('image/jpeg', 0.7));
-          }
-          v.src = ""; 
-        } catch (e) {}
-      };
-      v.onerror = () => v.src = "";
-    };
-    generate();
-  }, [video, thumbnail, isAudio]);
+    if (isAudio) {
+      // Embedded cover art, once the player has read the file's tags
+      let url: string | undefined;
+      loadAudioAnalysis(video.id).then(analysis => {
+        if (!analysis?.cover) return;
+        url = URL.createObjectURL(analysis.cover);
+        setThumbnail(url);
+      }).catch(() => undefined);
+      return () => { if (url) URL.revokeObjectURL(url); };
+    }
+    if (!canCaptureFrames(video)) return;
+
+    // Served from the IndexedDB cache after the first capture
+    let cancelled = false;
+    getThumbnail(video).then(result => { if (!cancelled && result) setThumbnail(result); });
+    return () => { cancelled = true; };
+  }, [video.id, video.thumbnail]);
 
-  if (isAudio) return (
+  if (isAudio && !thumbnail) return (
     <div className="absolute inset-0 bg-gradient-to-br from-purple-900 to-black flex items-center justify-center group-hover:scale-110 transition-transform duration-500">
-        <Icons.Volume className="w-12 h-12 text-white/50" />
+        <Icons.Music className="w-12 h-12 text-white/50" />
     </div>
   );
 
@@ -80,6 +168,7 @@ const VideoThumbnail: React.FC<{ video: VideoFile }> = ({ video }) => {
     <div className="absolute inset-0 bg-gradient-to-br from-gray-800 to-black group-hover:scale-110 transition-transform duration-500">
       <div className="absolute inset-0 flex items-center justify-center">
          {video.sourceType === 'googlesheet' ? <span className="text-4xl">📊</span> : 
+          video.sourceType === 'rss' ? <span className="text-4xl">📻</span> : 
           video.sourceType === 'stream' ? <Icons.Link className="w-12 h-12 text-white/10" /> : 
           <Icons.Video className="w-12 h-12 text-white/10 group-hover:text-primary/50 transition-colors" />}
       </div>
@@ -109,18 +198,46 @@ export const VideoList: React.FC<VideoListProps> = ({
   favorites, 
   history,
   progressHistory,
+  bookmarks,
   settings,
   loadingSheets,
+  sourceCache,
+  refreshingSources,
   activeTab,
   setActiveTab,
   onSettingsChange,
   onSelect, 
+  playlists,
+  queue,
+  upNext,
+  onPlayNext,
+  onAddToQueue,
+  onClearQueue,
+  onCreatePlaylist,
+  onDeletePlaylist,
+  onAddToPlaylist,
+  onRemoveFromPlaylist,
   onImport, 
+  onPickFiles,
+  onPickFolder,
+  pendingLocalCount,
+  onRestoreAccess,
+  onDeleteLocal,
   onAddNetworkStream,
   onToggleFavorite,
   onDeleteStream,
   onClearData,
-  onRefresh
+  onExportBackup,
+  onRestoreBackup,
+  onRefresh,
+  downloads,
+  offlineMedia,
+  onDownload,
+  onPauseDownload,
+  onResumeDownload,
+  onCancelDownload,
+  onRemoveOffline,
+  miniPlayerOpen = false
 }) => {
   const [search, setSearch] = useState('');
   const [sort, setSort] = useState<SortOption>('date');
@@ -129,6 +246,81 @@ export const VideoList: React.FC<VideoListProps> = ({
   const [streamUrl, setStreamUrl] = useState('');
   const [streamName, setStreamName] = useState('');
   const [newSheetUrl, setNewSheetUrl] = useState('');
+  const [newSourceUrl, setNewSourceUrl] = useState('');
+  const [newSourceKind, setNewSourceKind] = useState<RemoteSource['kind']>(undefined);
+  const [mappingSheetUrl, setMappingSheetUrl] = useState<string | null>(null);
+  const [mappingDraft, setMappingDraft] = useState<SheetColumnMapping>({});
+  const [currentFolder, setCurrentFolder] = useState('');
+  const [openPlaylistId, setOpenPlaylistId] = useState<string | null>(null);
+  const [menuVideo, setMenuVideo] = useState<VideoFile | null>(null);
+  const [sheetFilter, setSheetFilter] = useState<string | null>(null);
+  const [offlineOnly, setOfflineOnly] = useState(false);
+  const [backupFile, setBackupFile] = useState<File | null>(null);
+  const [storageEstimate, setStorageEstimate] = useState<{ usage: number; quota: number } | null>(null);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  const shortcuts = useMemo(() => resolveBindings(settings.shortcuts), [settings.shortcuts]);
+
+  const offlineIds = useMemo(() => new Set(offlineMedia.map(m => m.id)), [offlineMedia]);
+  const queueAfterNext = upNext ? queue.length - queue.findIndex(v => v.id === upNext.id) - 1 : 0;
+
+  useEffect(() => {
+    if (showSettings) getStorageEstimate().then(setStorageEstimate).catch(() => setStorageEstimate(null));
+  }, [showSettings, offlineMedia]);
+
+  // Keyboard Shortcuts, the docked player leaves the keyboard to the library
+  useEffect(() => {
+    const actions: Record<LibraryAction, () => void> = {
+      focusSearch: () => searchInputRef.current?.focus(),
+      showLibrary: () => setActiveTab('library'),
+      showFavorites: () => setActiveTab('favorites'),
+      showHistory: () => setActiveTab('history'),
+      showPlaylists: () => { setActiveTab('playlists'); setOpenPlaylistId(null); },
+      openSettings: () => setShowSettings(true),
+      refreshSources: onRefresh
+    };
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (isTypingTarget(e.target)) return;
+      const action = matchShortcut(e, shortcuts, 'library');
+      if (action === 'showShortcuts') {
+        e.preventDefault();
+        setShowShortcuts(p => !p);
+        return;
+      }
+      if (!action || !(action in actions) || showShortcuts || showSettings || showStreamModal || menuVideo) return;
+      e.preventDefault(); // Keeps the "/" out of the search box
+      actions[action as LibraryAction]();
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [shortcuts, showShortcuts, showSettings, showStreamModal, menuVideo, setActiveTab, onRefresh]);
+
+  const openPlaylist = activeTab === 'playlists' ? playlists.find(p => p.id === openPlaylistId) : undefined;
+  const showPlaylistIndex = activeTab === 'playlists' && !openPlaylist;
+
+  // Folder browsing only applies to the unfiltered library; search and other tabs stay flat
+  const browseFolders = activeTab === 'library' && !search && !sheetFilter && !offlineOnly;
+
+  const sheetNames = useMemo(() => {
+    return Array.from(new Set(videos.filter(v => SOURCE_BADGES[v.sourceType] && v.sheetName).map(v => v.sheetName!))).sort();
+  }, [videos]);
+
+  const subfolders = useMemo(() => {
+    if (!browseFolders) return [];
+    const prefix = currentFolder ? `${currentFolder}/` : '';
+    const counts = new Map<string, number>();
+    videos.forEach(v => {
+      const folder = folderOf(v.relativePath);
+      if (!folder || folder === currentFolder || !folder.startsWith(prefix)) return;
+      const name = folder.slice(prefix.length).split('/')[0];
+      counts.set(name, (counts.get(name) || 0) + 1);
+    });
+    return Array.from(counts.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([name, count]) => ({ name, path: prefix + name, count }));
+  }, [videos, currentFolder, browseFolders]);
 
   const filteredVideos = useMemo(() => {
     let result = [...videos];
@@ -139,24 +331,57 @@ export const VideoList: React.FC<VideoListProps> = ({
     } else if (activeTab === 'history') {
         // Filter and sort by history order
         result = history.map(id => videos.find(v => v.id === id)).filter((v): v is VideoFile => !!v);
+    } else if (activeTab === 'playlists') {
+        // Playlists keep their own order
+        result = (openPlaylist?.videoIds || []).map(id => videos.find(v => v.id === id)).filter((v): v is VideoFile => !!v);
+    }
+
+    if (browseFolders) {
+        result = result.filter(v => folderOf(v.relativePath) === currentFolder);
+    }
+
+    if (sheetFilter) {
+        result = result.filter(v => v.sheetName === sheetFilter);
+    }
+
+    if (offlineOnly) {
+        result = result.filter(v => offlineIds.has(v.id));
     }
 
     if (search) {
       const lower = search.toLowerCase();
-      result = result.filter(v => v.name.toLowerCase().includes(lower));
+      result = result.filter(v => 
+        v.name.toLowerCase().includes(lower) ||
+        v.description?.toLowerCase().includes(lower) ||
+        v.tags?.some(t => t.toLowerCase().includes(lower))
+      );
     }
 
-    if (activeTab !== 'history') {
+    if (activeTab !== 'history' && activeTab !== 'playlists') {
         result.sort((a, b) => {
         if (sort === 'name') return a.name.localeCompare(b.name);
         if (sort === 'size') return b.size - a.size;
-        if (sort === 'source') return a.sourceType.localeCompare(b.sourceType);
+        if (sort === 'source') return sourceGroupOf(a).localeCompare(sourceGroupOf(b)) || a.name.localeCompare(b.name);
+        if (sort === 'folder') return (a.relativePath || a.name).localeCompare(b.relativePath || b.name);
         return b.lastModified - a.lastModified;
         });
     }
     
     return result;
-  }, [videos, search, sort, activeTab, favorites, history]);
+  }, [videos, search, sort, activeTab, favorites, history, browseFolders, currentFolder, openPlaylist, sheetFilter, offlineOnly, offlineIds]);
+
+  const continueWatching = useMemo(() => {
+      if (!browseFolders || currentFolder) return [];
+      return videos
+        .filter(v => isInProgress(progressHistory[v.id]))
+        .sort((a, b) => progressHistory[b.id].updatedAt - progressHistory[a.id].updatedAt)
+        .slice(0, 10);
+  }, [videos, progressHistory, browseFolders, currentFolder]);
+
+  const promptNewPlaylist = (videoIds: string[] = []) => {
+      const name = window.prompt('Playlist name');
+      if (name && name.trim()) onCreatePlaylist(name.trim(), videoIds);
+  };
 
   const submitStream = (e: React.FormEvent) => {
       e.preventDefault();
@@ -194,6 +419,10 @@ export const VideoList: React.FC<VideoListProps> = ({
                     <Icons.History className="w-5 h-5" />
                     <span className="hidden md:block">History</span>
                 </button>
+                <button onClick={() => { setActiveTab('playlists'); setOpenPlaylistId(null); }} className={`w-full flex items-center gap-3 px-3 py-2.5 rounded-lg transition text-sm font-medium ${activeTab === 'playlists' ? 'bg-primary/10 text-primary' : 'text-white/60 hover:bg-white/5 hover:text-white'}`}>
+                    <Icons.List className="w-5 h-5" />
+                    <span className="hidden md:block">Playlists</span>
+                </button>
             </nav>
 
             <div className="p-4 border-t border-white/5 space-y-2">
@@ -221,6 +450,10 @@ export const VideoList: React.FC<VideoListProps> = ({
             <button onClick={() => setActiveTab('history')} className={`flex flex-col items-center p-2 rounded-lg ${activeTab === 'history' ? 'text-primary' : 'text-white/50'}`}>
                 <Icons.History className="w-6 h-6" />
                 <span className="text-[10px] mt-1">History</span>
+            </button>
+            <button onClick={() => { setActiveTab('playlists'); setOpenPlaylistId(null); }} className={`flex flex-col items-center p-2 rounded-lg ${activeTab === 'playlists' ? 'text-primary' : 'text-white/50'}`}>
+                <Icons.List className="w-6 h-6" />
+                <span className="text-[10px] mt-1">Playlists</span>
             </button>
              <button onClick={() => setShowSettings(true)} className={`flex flex-col items-center p-2 rounded-lg text-white/50`}>
                 <Icons.Settings className="w-6 h-6" />
@@ -241,7 +474,7 @@ export const VideoList: React.FC<VideoListProps> = ({
             <div className="flex flex-col sm:flex-row gap-3 justify-between items-center">
                 <div className="relative w-full sm:max-w-md">
                     <Icons.Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-white/40" />
-                    <input type="text" placeholder="Search videos..." value={search} onChange={(e) => setSearch(e.target.value)} className="w-full bg-[#1E1E1E] border border-white/10 rounded-xl pl-9 pr-4 py-2.5 text-sm text-white placeholder-white/30 focus:outline-none focus:border-primary/50 focus:ring-1 focus:ring-primary/20 transition" />
+                    <input ref={searchInputRef} type="text" placeholder="Search videos..." value={search} onChange={(e) => setSearch(e.target.value)} className="w-full bg-[#1E1E1E] border border-white/10 rounded-xl pl-9 pr-4 py-2.5 text-sm text-white placeholder-white/30 focus:outline-none focus:border-primary/50 focus:ring-1 focus:ring-primary/20 transition" />
                 </div>
                 
                 <div className="flex items-center gap-2 w-full sm:w-auto justify-end">
@@ -259,33 +492,152 @@ export const VideoList: React.FC<VideoListProps> = ({
                         <Icons.Refresh className={`w-5 h-5 ${loadingSheets ? 'animate-spin' : ''}`} />
                     </button>
 
-                    <label className="flex items-center justify-center w-9 h-9 rounded-lg bg-primary hover:bg-primary/90 text-black cursor-pointer transition shadow-lg shadow-primary/20">
+                    <label 
+                        className="flex items-center justify-center w-9 h-9 rounded-lg bg-primary hover:bg-primary/90 text-black cursor-pointer transition shadow-lg shadow-primary/20"
+                        onClick={onPickFiles ? (e) => { e.preventDefault(); onPickFiles(); } : undefined}
+                    >
                         <Icons.Folder className="w-4 h-4" />
                         <input type="file" multiple accept="video/*,audio/*" className="hidden" onChange={onImport} />
                     </label>
 
+                    {onPickFolder ? (
+                        <button onClick={onPickFolder} className="flex items-center justify-center w-9 h-9 rounded-lg bg-[#1E1E1E] border border-white/10 text-white/70 hover:text-primary transition" title="Import Folder">
+                            <Icons.FolderPlus className="w-4 h-4" />
+                        </button>
+                    ) : (
+                        <label className="flex items-center justify-center w-9 h-9 rounded-lg bg-[#1E1E1E] border border-white/10 text-white/70 hover:text-primary cursor-pointer transition" title="Import Folder">
+                            <Icons.FolderPlus className="w-4 h-4" />
+                            <input type="file" multiple webkitdirectory="" className="hidden" onChange={onImport} />
+                        </label>
+                    )}
+
                     <div className="relative group">
                        <button className="h-9 px-3 rounded-lg bg-[#1E1E1E] border border-white/10 flex items-center gap-2 text-sm text-white/70 hover:bg-white/5 transition">
                           <Icons.Sort className="w-4 h-4" />
                           <span className="capitalize hidden sm:inline">{sort}</span>
                        </button>
                        <div className="absolute right-0 top-full mt-2 w-32 bg-[#252525] border border-white/10 rounded-xl shadow-xl overflow-hidden hidden group-hover:block z-30">
-                          {(['date', 'name', 'size', 'source'] as SortOption[]).map(opt => (
+                          {(['date', 'name', 'size', 'source', 'folder'] as SortOption[]).map(opt => (
                              <button key={opt} onClick={() => setSort(opt)} className={`w-full text-left px-4 py-2 text-xs hover:bg-white/5 capitalize ${sort === opt ? 'text-primary' : 'text-white/80'}`}>{opt}</button>
                           ))}
                        </div>
                     </div>
                 </div>
             </div>
+
+            {/* Source Sheet Filter */}
+            {(sheetNames.length > 0 || offlineMedia.length > 0) && (
+                <div className="flex gap-2 mt-3 overflow-x-auto no-scrollbar">
+                    <button onClick={() => setSheetFilter(null)} className={`px-3 py-1 text-xs rounded-full border whitespace-nowrap transition ${!sheetFilter ? 'bg-primary text-black border-primary font-bold' : 'border-white/10 text-white/60 hover:text-white'}`}>All Sources</button>
+                    {offlineMedia.length > 0 && (
+                        <button onClick={() => setOfflineOnly(o => !o)} className={`px-3 py-1 text-xs rounded-full border whitespace-nowrap transition flex items-center gap-1 ${offlineOnly ? 'bg-primary text-black border-primary font-bold' : 'border-white/10 text-white/60 hover:text-white'}`}><Icons.Offline className="w-3 h-3" /> Downloaded</button>
+                    )}
+                    {sheetNames.map(name => (
+                        <button key={name} onClick={() => setSheetFilter(sheetFilter === name ? null : name)} className={`px-3 py-1 text-xs rounded-full border whitespace-nowrap transition ${sheetFilter === name ? 'bg-primary text-black border-primary font-bold' : 'border-white/10 text-white/60 hover:text-white'}`}>{name}</button>
+                    ))}
+                </div>
+            )}
         </div>
 
         {/* Video Grid/List */}
-        <div className="flex-1 overflow-y-auto p-4 md:p-6 pb-24 md:pb-6 no-scrollbar">
-            {filteredVideos.length === 0 && !loadingSheets ? (
+        <div className={`flex-1 overflow-y-auto p-4 md:p-6 no-scrollbar ${miniPlayerOpen ? 'pb-44 md:pb-24' : 'pb-24 md:pb-6'}`}>
+            {pendingLocalCount > 0 && activeTab === 'library' && (
+                <div className="mb-4 flex items-center justify-between gap-3 bg-primary/10 border border-primary/20 rounded-xl px-4 py-3 text-sm animate-fade-in">
+                    <span className="text-white/80">{pendingLocalCount} imported {pendingLocalCount === 1 ? 'file needs' : 'files need'} permission to play again</span>
+                    <button onClick={onRestoreAccess} className="px-3 py-1.5 bg-primary text-black text-xs font-bold rounded-lg flex-shrink-0">Allow Access</button>
+                </div>
+            )}
+
+            {upNext && (
+                <div className="mb-4 flex items-center justify-between gap-3 bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm animate-fade-in">
+                    <div className="flex items-center gap-2 min-w-0">
+                        <Icons.ListVideo className="w-4 h-4 text-primary flex-shrink-0" />
+                        <span className="text-white/80 truncate">Up Next: {upNext.name}{queueAfterNext > 0 ? ` +${queueAfterNext}` : ''}</span>
+                    </div>
+                    <div className="flex gap-2 flex-shrink-0">
+                        <button onClick={() => onSelect(upNext)} className="px-3 py-1.5 bg-primary text-black text-xs font-bold rounded-lg">Play</button>
+                        <button onClick={onClearQueue} className="px-3 py-1.5 bg-white/5 text-white/60 text-xs rounded-lg hover:text-white">Clear</button>
+                    </div>
+                </div>
+            )}
+
+            {continueWatching.length > 0 && (
+                <div className="mb-6">
+                    <h2 className="text-sm font-bold text-white/60 uppercase tracking-wider mb-3">Continue Watching</h2>
+                    <div className="flex gap-3 overflow-x-auto no-scrollbar pb-1">
+                        {continueWatching.map(video => {
+                            const progress = progressHistory[video.id];
+                            return (
+                                <div key={video.id} onClick={() => onSelect(video, continueWatching)} className="w-56 flex-shrink-0 bg-[#1E1E1E] rounded-xl overflow-hidden cursor-pointer group hover:ring-2 ring-primary/50 transition-all shadow-md">
+                                    <div className="relative aspect-video bg-black/40 overflow-hidden flex items-center justify-center">
+                                        <VideoThumbnail video={video} />
+                                        <div className="absolute bottom-0 left-0 right-0 h-1 bg-white/20 z-20">
+                                            <div className="h-full bg-primary" style={{ width: `${progressRatio(progress) * 100}%` }} />
+                                        </div>
+                                    </div>
+                                    <div className="p-2">
+                                        <h3 className="text-xs font-medium text-white line-clamp-1 group-hover:text-primary transition-colors">{video.name}</h3>
+                                        <span className="text-[10px] text-white/40 font-mono">{formatTime(progress.duration - progress.position)} left</span>
+                                    </div>
+                                </div>
+                            );
+                        })}
+                    </div>
+                </div>
+            )}
+
+            {openPlaylist && (
+                <div className="mb-4 flex items-center justify-between gap-3">
+                    <div className="flex items-center gap-2 min-w-0">
+                        <button onClick={() => setOpenPlaylistId(null)} className="p-2 rounded-full hover:bg-white/10"><Icons.Back className="w-5 h-5" /></button>
+                        <h2 className="text-lg font-bold truncate">{openPlaylist.name}</h2>
+                        <span className="text-xs text-white/40 font-mono">{filteredVideos.length} items</span>
+                    </div>
+                    <div className="flex gap-2 flex-shrink-0">
+                        {filteredVideos.length > 0 && (
+                            <button onClick={() => onSelect(filteredVideos[0], filteredVideos)} className="px-3 py-1.5 bg-primary text-black text-xs font-bold rounded-lg flex items-center gap-1"><Icons.Play className="w-3 h-3 fill-current" /> Play All</button>
+                        )}
+                        <button onClick={() => { if (window.confirm(`Delete "${openPlaylist.name}"?`)) { onDeletePlaylist(openPlaylist.id); setOpenPlaylistId(null); } }} className="p-2 text-red-400 hover:bg-red-500/10 rounded-lg"><Icons.Trash className="w-4 h-4" /></button>
+                    </div>
+                </div>
+            )}
+
+            {browseFolders && currentFolder && (
+                <div className="mb-4 flex items-center gap-1 text-sm text-white/60 flex-wrap">
+                    <button onClick={() => setCurrentFolder('')} className="hover:text-primary transition">Library</button>
+                    {currentFolder.split('/').map((part, i, parts) => (
+                        <React.Fragment key={i}>
+                            <Icons.ChevronRight className="w-4 h-4 text-white/30" />
+                            <button onClick={() => setCurrentFolder(parts.slice(0, i + 1).join('/'))} className={`hover:text-primary transition ${i === parts.length - 1 ? 'text-white font-medium' : ''}`}>{part}</button>
+                        </React.Fragment>
+                    ))}
+                </div>
+            )}
+
+            {showPlaylistIndex ? (
+                <div className={settings.viewMode === 'grid' ? "grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 2xl:grid-cols-5 gap-4" : "flex flex-col gap-2"}>
+                    <button onClick={() => promptNewPlaylist()} className="bg-[#1E1E1E] rounded-xl border border-dashed border-white/10 hover:border-primary/50 text-white/50 hover:text-primary transition flex items-center justify-center gap-2 p-6 min-h-24">
+                        <Icons.Plus className="w-5 h-5" />
+                        <span className="text-sm font-medium">New Playlist</span>
+                    </button>
+                    {playlists.map(playlist => (
+                        <div key={playlist.id} onClick={() => setOpenPlaylistId(playlist.id)} className="bg-[#1E1E1E] rounded-xl p-4 cursor-pointer group hover:ring-2 ring-primary/50 transition-all shadow-md flex items-center gap-3">
+                            <div className="w-12 h-12 rounded-lg bg-gradient-to-br from-primary/30 to-black flex items-center justify-center flex-shrink-0">
+                                <Icons.List className="w-6 h-6 text-white/60" />
+                            </div>
+                            <div className="min-w-0">
+                                <h3 className="font-medium text-white text-sm truncate group-hover:text-primary transition-colors">{playlist.name}</h3>
+                                <span className="text-xs text-white/40 font-mono">{playlist.videoIds.length} items</span>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            ) : filteredVideos.length === 0 && subfolders.length === 0 && !loadingSheets ? (
                 <div className="h-full flex flex-col items-center justify-center text-white/50 gap-4 animate-fade-in">
                         <div className="w-20 h-20 bg-white/5 rounded-full flex items-center justify-center mb-2">
                             {activeTab === 'favorites' ? <Icons.Heart className="w-8 h-8 opacity-30" /> : 
                              activeTab === 'history' ? <Icons.History className="w-8 h-8 opacity-30" /> :
+                             activeTab === 'playlists' ? <Icons.List className="w-8 h-8 opacity-30" /> :
                              <Icons.Folder className="w-8 h-8 opacity-30" />}
                         </div>
                         <p>No media found</p>
@@ -298,30 +650,73 @@ export const VideoList: React.FC<VideoListProps> = ({
                         <VideoSkeleton key={`skel-${i}`} />
                     ))}
 
-                    {filteredVideos.map((video) => {
+                    {/* Folders */}
+                    {subfolders.map(folder => (
+                        <div 
+                            key={folder.path}
+                            onClick={() => setCurrentFolder(folder.path)}
+                            className={`bg-[#1E1E1E] rounded-xl overflow-hidden cursor-pointer group hover:ring-2 ring-primary/50 transition-all shadow-md ${settings.viewMode === 'list' ? 'flex h-24 hover:bg-white/5' : 'hover:-translate-y-1'}`}
+                        >
+                            <div className={`relative flex-shrink-0 bg-gradient-to-br from-gray-800 to-black flex items-center justify-center ${settings.viewMode === 'list' ? 'w-36 h-full' : 'aspect-video'}`}>
+                                <Icons.Folder className="w-12 h-12 text-white/20 group-hover:text-primary/60 transition-colors" />
+                            </div>
+                            <div className="flex flex-col justify-center flex-1 p-3">
+                                <h3 className="font-medium text-white text-sm line-clamp-1 group-hover:text-primary transition-colors">{folder.name}</h3>
+                                <span className="text-xs text-white/40 font-mono mt-1">{folder.count} {folder.count === 1 ? 'item' : 'items'}</span>
+                            </div>
+                        </div>
+                    ))}
+
+                    {filteredVideos.map((video, index) => {
                         const isFav = favorites.includes(video.id);
-                        const progress = progressHistory[video.id] || 0;
-                        const hasProgress = progress > 10; 
+                        const progress = progressHistory[video.id];
+                        const hasProgress = !!progress && (progress.completed || progress.position > 10);
                         const isList = settings.viewMode === 'list';
+                        const bookmarkCount = (bookmarks[video.id] || []).filter(m => m.kind === 'bookmark').length;
+                        const download = downloads[video.id];
+                        // Sorting by source groups the grid under a heading per sheet tab
+                        const group = sort === 'source' && activeTab !== 'history' && activeTab !== 'playlists' ? sourceGroupOf(video) : null;
+                        const startsGroup = group !== null && (index === 0 || sourceGroupOf(filteredVideos[index - 1]) !== group);
 
                         return (
+                            <React.Fragment key={video.id}>
+                            {startsGroup && (
+                                <h3 className="col-span-full text-xs font-bold text-white/40 uppercase tracking-wider pt-2">{group}</h3>
+                            )}
                             <div 
-                                key={video.id}
-                                onClick={() => onSelect(video)}
+                                onClick={() => onSelect(video, filteredVideos)}
                                 className={`bg-[#1E1E1E] rounded-xl overflow-hidden cursor-pointer group hover:ring-2 ring-primary/50 transition-all shadow-md ${isList ? 'flex h-24 hover:bg-white/5' : 'hover:-translate-y-1'}`}
                             >
                                 <div className={`relative flex-shrink-0 bg-black/40 overflow-hidden flex items-center justify-center ${isList ? 'w-36 h-full' : 'aspect-video'}`}>
                                     <VideoThumbnail video={video} />
                                     {/* Badges */}
                                     <div className="absolute top-2 left-2 z-20 flex gap-1">
-                                        {video.sourceType === 'googlesheet' && <span className="bg-green-600/90 text-white text-[10px] px-1.5 rounded backdrop-blur-md">CLOUD</span>}
+                                        {SOURCE_BADGES[video.sourceType] && <span title={video.sheetName} className={`${SOURCE_BADGES[video.sourceType]!.className} text-white text-[10px] px-1.5 rounded backdrop-blur-md`}>{SOURCE_BADGES[video.sourceType]!.label}</span>}
                                         {video.sourceType === 'stream' && <span className="bg-blue-600/90 text-white text-[10px] px-1.5 rounded backdrop-blur-md">LIVE</span>}
+                                        {progress?.completed && <span className="bg-black/70 text-white text-[10px] px-1.5 rounded backdrop-blur-md flex items-center gap-0.5"><Icons.Check className="w-3 h-3" />WATCHED</span>}
+                                        {offlineIds.has(video.id) && <span title="Saved for offline playback" className="bg-emerald-600/90 text-white text-[10px] px-1.5 rounded backdrop-blur-md flex items-center gap-0.5"><Icons.Offline className="w-3 h-3" />OFFLINE</span>}
+                                        {bookmarkCount > 0 && <span className="bg-yellow-500/90 text-black text-[10px] px-1.5 rounded backdrop-blur-md flex items-center gap-0.5"><Icons.Bookmark className="w-3 h-3" />{bookmarkCount}</span>}
                                     </div>
                                     
+                                    {/* Download Progress */}
+                                    {download && (
+                                        <div className="absolute inset-x-0 bottom-0 z-30 bg-black/70 px-2 py-1 text-[10px] text-white/80 font-mono">
+                                            <div className="flex justify-between">
+                                                <span>{download.status === 'error' ? 'Failed' : download.status === 'paused' ? 'Paused' : 'Downloading'}</span>
+                                                <span>{download.total > 0 ? `${Math.floor(download.received / download.total * 100)}%` : toMB(download.received)}</span>
+                                            </div>
+                                            {download.total > 0 && (
+                                                <div className="h-0.5 bg-white/20 mt-0.5">
+                                                    <div className="h-full bg-emerald-500" style={{ width: `${download.received / download.total * 100}%` }} />
+                                                </div>
+                                            )}
+                                        </div>
+                                    )}
+
                                     {/* Progress Bar */}
                                     {hasProgress && !video.type.startsWith('audio') && (
                                         <div className="absolute bottom-0 left-0 right-0 h-1 bg-white/20 z-20">
-                                            <div className="h-full bg-primary w-1/3" /> 
+                                            <div className="h-full bg-primary" style={{ width: `${progress.completed ? 100 : progressRatio(progress) * 100}%` }} /> 
                                         </div>
                                     )}
                                 </div>
@@ -330,7 +725,13 @@ export const VideoList: React.FC<VideoListProps> = ({
                                     <div>
                                         <h3 className={`font-medium text-white group-hover:text-primary transition-colors ${isList ? 'text-base line-clamp-2' : 'text-sm line-clamp-1 mb-1'}`}>{video.name}</h3>
                                         <div className="flex items-center gap-3 text-xs text-white/40 font-mono mt-1">
-                                            <span>{video.size > 0 ? (video.size / (1024 * 1024)).toFixed(1) + ' MB' : 'Stream'}</span>
+                                            <span>{video.size > 0 ? toMB(video.size) : 'Stream'}</span>
+                                            {progress?.duration > 0 && (
+                                                <>
+                                                    <span className="w-1 h-1 bg-white/20 rounded-full" />
+                                                    <span>{formatTime(progress.duration)}</span>
+                                                </>
+                                            )}
                                             <span className="w-1 h-1 bg-white/20 rounded-full" />
                                             <span>{new Date(video.lastModified).toLocaleDateString()}</span>
                                         </div>
@@ -339,14 +740,22 @@ export const VideoList: React.FC<VideoListProps> = ({
                                     <div className={`flex items-center justify-between mt-2 ${isList ? 'mt-0' : ''}`}>
                                          {isList && video.sourceType === 'stream' && onDeleteStream ? (
                                              <button onClick={(e) => { e.stopPropagation(); onDeleteStream(video.id); }} className="text-red-400 hover:text-red-300 p-1"><Icons.Trash className="w-4 h-4" /></button>
+                                         ) : isList && video.sourceType === 'local' ? (
+                                             <button onClick={(e) => { e.stopPropagation(); onDeleteLocal(video.id); }} className="text-red-400 hover:text-red-300 p-1"><Icons.Trash className="w-4 h-4" /></button>
                                          ) : <div />}
                                          
-                                         <button onClick={(e) => onToggleFavorite(video.id, e)} className={`${isFav ? 'text-red-500' : 'text-white/20 hover:text-white/60'} transition p-1`}>
-                                             <Icons.Heart className={`w-4 h-4 ${isFav ? 'fill-current' : ''}`} />
-                                         </button>
+                                         <div className="flex items-center">
+                                             <button onClick={(e) => { e.stopPropagation(); setMenuVideo(video); }} className="text-white/20 hover:text-white/60 transition p-1">
+                                                 <Icons.More className="w-4 h-4" />
+                                             </button>
+                                             <button onClick={(e) => onToggleFavorite(video.id, e)} className={`${isFav ? 'text-red-500' : 'text-white/20 hover:text-white/60'} transition p-1`}>
+                                                 <Icons.Heart className={`w-4 h-4 ${isFav ? 'fill-current' : ''}`} />
+                                             </button>
+                                         </div>
                                     </div>
                                 </div>
                             </div>
+                            </React.Fragment>
                         );
                     })}
                 </div>
@@ -378,14 +787,104 @@ export const VideoList: React.FC<VideoListProps> = ({
                              <input type="text" placeholder="Google Sheet URL" value={newSheetUrl} onChange={e => setNewSheetUrl(e.target.value)} className="flex-1 bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-xs focus:border-primary focus:outline-none" />
                              <button onClick={() => { if(newSheetUrl) { onSettingsChange({...settings, googleSheetUrls: [...settings.googleSheetUrls, newSheetUrl]}); setNewSheetUrl(''); }}} className="px-3 bg-primary text-black text-xs font-bold rounded-lg">Add</button>
                           </div>
+                          <input
+                              type="password"
+                              placeholder="Google API key (optional, for tab names and All Tabs)"
+                              defaultValue={settings.googleApiKey}
+                              onBlur={e => { if (e.target.value.trim() !== settings.googleApiKey) updateSetting('googleApiKey', e.target.value.trim()); }}
+                              className="w-full bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-xs focus:border-primary focus:outline-none"
+                          />
                           <div className="space-y-2">
                               {settings.googleSheetUrls.map((url, i) => (
-                                  <div key={i} className="flex justify-between items-center text-xs bg-black/20 p-2 rounded">
-                                      <span className="truncate max-w-[200px] text-white/60">{url}</span>
-                                      <button onClick={() => onSettingsChange({...settings, googleSheetUrls: settings.googleSheetUrls.filter(u => u !== url)})} className="text-red-400"><Icons.Trash className="w-3 h-3" /></button>
+                                  <div key={i} className="text-xs bg-black/20 p-2 rounded space-y-2">
+                                      <div className="flex justify-between items-center gap-2">
+                                          <span className="truncate max-w-[200px] text-white/60">{url}</span>
+                                          <div className="flex items-center gap-2 flex-shrink-0">
+                                              <button
+                                                  onClick={() => onSettingsChange({...settings, sheetAllTabs: settings.sheetAllTabs.includes(url) ? settings.sheetAllTabs.filter(u => u !== url) : [...settings.sheetAllTabs, url]})}
+                                                  disabled={!settings.googleApiKey}
+                                                  title={settings.googleApiKey ? 'Import every tab' : 'Needs a Google API key'}
+                                                  className={`hover:text-white disabled:opacity-30 ${settings.sheetAllTabs.includes(url) ? 'text-primary' : 'text-white/40'}`}
+                                              >All Tabs</button>
+                                              <button onClick={() => {
+                                                  const open = mappingSheetUrl !== url;
+                                                  setMappingSheetUrl(open ? url : null);
+                                                  setMappingDraft(settings.sheetColumnMappings[url] || {});
+                                              }} className={`hover:text-white ${mappingSheetUrl === url ? 'text-primary' : 'text-white/40'}`}>Columns</button>
+                                              <button onClick={() => {
+                                                  const { [url]: _, ...mappings } = settings.sheetColumnMappings;
+                                                  onSettingsChange({...settings, googleSheetUrls: settings.googleSheetUrls.filter(u => u !== url), sheetColumnMappings: mappings, sheetAllTabs: settings.sheetAllTabs.filter(u => u !== url)});
+                                              }} className="text-red-400"><Icons.Trash className="w-3 h-3" /></button>
+                                          </div>
+                                      </div>
+                                      <SourceStatus
+                                          entry={sourceCache[url]}
+                                          refreshing={refreshingSources.includes(url)}
+                                          describeIssue={issue => `${issue.tab ? `${issue.tab}, row` : 'Row'} ${issue.row}: ${issue.reason}`}
+                                      />
+                                      {mappingSheetUrl === url && (
+                                          <div className="space-y-1.5 pt-2 border-t border-white/5">
+                                              <p className="text-[10px] text-white/40">Header names to read each field from. Leave blank to detect automatically.</p>
+                                              {(Object.keys(SHEET_FIELD_LABELS) as SheetField[]).map(field => (
+                                                  <div key={field} className="flex items-center gap-2">
+                                                      <span className="w-24 text-white/50 flex-shrink-0">{SHEET_FIELD_LABELS[field]}</span>
+                                                      <input
+                                                          type="text"
+                                                          value={mappingDraft[field] || ''}
+                                                          placeholder={SHEET_COLUMN_ALIASES[field][0]}
+                                                          onChange={e => setMappingDraft(d => ({ ...d, [field]: e.target.value || undefined }))}
+                                                          className="flex-1 min-w-0 bg-black/20 border border-white/10 rounded px-2 py-1 focus:border-primary focus:outline-none"
+                                                      />
+                                                  </div>
+                                              ))}
+                                              <button onClick={() => {
+                                                  onSettingsChange({...settings, sheetColumnMappings: {...settings.sheetColumnMappings, [url]: mappingDraft}});
+                                                  setMappingSheetUrl(null);
+                                              }} className="w-full py-1.5 mt-1 bg-primary text-black font-bold rounded">Save Columns</button>
+                                          </div>
+                                      )}
+                                  </div>
+                              ))}
+                          </div>
+                          <div className="pt-3 border-t border-white/5 space-y-2">
+                              <p className="text-[10px] text-white/40 uppercase tracking-wider">JSON, M3U and RSS Catalogs</p>
+                              <div className="flex gap-2">
+                                  <input type="text" placeholder="Catalog, playlist or feed URL" value={newSourceUrl} onChange={e => setNewSourceUrl(e.target.value)} className="flex-1 min-w-0 bg-black/20 border border-white/10 rounded-lg px-3 py-2 text-xs focus:border-primary focus:outline-none" />
+                                  <select value={newSourceKind || ''} onChange={e => setNewSourceKind((e.target.value || undefined) as RemoteSource['kind'])} className="bg-black/20 border border-white/10 rounded-lg px-2 text-xs focus:outline-none">
+                                      {REMOTE_SOURCE_KINDS.map(k => <option key={k.label} value={k.value || ''}>{k.label}</option>)}
+                                  </select>
+                                  <button onClick={() => {
+                                      const url = newSourceUrl.trim();
+                                      if (!url || settings.remoteSources.some(s => s.url === url)) return;
+                                      onSettingsChange({...settings, remoteSources: [...settings.remoteSources, { id: `source-${Date.now()}`, url, kind: newSourceKind }]});
+                                      setNewSourceUrl('');
+                                  }} className="px-3 bg-primary text-black text-xs font-bold rounded-lg">Add</button>
+                              </div>
+                              {settings.remoteSources.map(source => (
+                                  <div key={source.id} className="text-xs bg-black/20 p-2 rounded space-y-2">
+                                      <div className="flex justify-between items-center gap-2">
+                                          <span className="truncate max-w-[200px] text-white/60">{source.url}</span>
+                                          <div className="flex items-center gap-2 flex-shrink-0">
+                                              <span className="text-white/30 uppercase">{source.kind || 'auto'}</span>
+                                              <button onClick={() => onSettingsChange({...settings, remoteSources: settings.remoteSources.filter(s => s.id !== source.id)})} className="text-red-400"><Icons.Trash className="w-3 h-3" /></button>
+                                          </div>
+                                      </div>
+                                      <SourceStatus
+                                          entry={sourceCache[source.url]}
+                                          refreshing={refreshingSources.includes(source.url)}
+                                          describeIssue={issue => `Entry ${issue.row}: ${issue.reason}`}
+                                      />
                                   </div>
                               ))}
                           </div>
+                          <div className="pt-3 border-t border-white/5 space-y-2">
+                              <p className="text-[10px] text-white/40 uppercase tracking-wider">Refresh Cached Sources After</p>
+                              <div className="flex bg-black/20 rounded-lg p-1">
+                                  {SOURCE_CACHE_TTL_OPTIONS.map(minutes => (
+                                      <button key={minutes} onClick={() => updateSetting('sourceCacheTtl', minutes)} className={`flex-1 py-1.5 text-xs rounded transition ${settings.sourceCacheTtl === minutes ? 'bg-primary text-black font-bold' : 'text-white/60'}`}>{formatTtl(minutes)}</button>
+                                  ))}
+                              </div>
+                          </div>
                       </div>
                     )}
                  </div>
@@ -410,12 +909,119 @@ export const VideoList: React.FC<VideoListProps> = ({
                      </div>
                  </div>
 
+                 <div>
+                     <label className="text-sm font-medium text-white/70 block mb-3">When Reopening a Video</label>
+                     <div className="flex bg-white/5 rounded-lg p-1">
+                        {([['ask', 'Ask'], ['resume', 'Resume'], ['restart', 'Start Over']] as const).map(([value, label]) => (
+                            <button key={value} onClick={() => updateSetting('resumeBehavior', value)} className={`flex-1 py-1.5 text-xs rounded transition ${settings.resumeBehavior === value ? 'bg-primary text-black font-bold' : 'text-white/60'}`}>{label}</button>
+                        ))}
+                     </div>
+                 </div>
+
+                 {/* Offline Storage */}
+                 <div>
+                     <label className="text-sm font-medium text-white/70 block mb-3">Offline Storage</label>
+                     <div className="space-y-2 bg-white/5 p-4 rounded-xl border border-white/5 text-xs">
+                         {storageEstimate && storageEstimate.quota > 0 && (
+                             <div className="space-y-1">
+                                 <div className="flex justify-between text-white/50">
+                                     <span>{toMB(storageEstimate.usage)} used</span>
+                                     <span>{toMB(storageEstimate.quota)} available</span>
+                                 </div>
+                                 <div className="h-1 bg-white/10 rounded-full overflow-hidden">
+                                     <div className="h-full bg-primary" style={{ width: `${Math.min(100, storageEstimate.usage / storageEstimate.quota * 100)}%` }} />
+                                 </div>
+                             </div>
+                         )}
+                         {offlineMedia.length === 0 ? (
+                             <p className="text-white/40">No downloads yet. Use "Download for Offline" in a stream or sheet video's menu.</p>
+                         ) : offlineMedia.map(media => (
+                             <div key={media.id} className="flex justify-between items-center gap-2 bg-black/20 p-2 rounded">
+                                 <span className="truncate text-white/60">{media.name}</span>
+                                 <div className="flex items-center gap-2 flex-shrink-0">
+                                     <span className="text-white/30 font-mono">{toMB(media.size)}</span>
+                                     <button onClick={() => onRemoveOffline(media.id)} className="text-red-400"><Icons.Trash className="w-3 h-3" /></button>
+                                 </div>
+                             </div>
+                         ))}
+                     </div>
+                 </div>
+
+                 {/* Backup */}
+                 <div>
+                     <label className="text-sm font-medium text-white/70 block mb-3">Backup & Restore</label>
+                     <div className="space-y-2 bg-white/5 p-4 rounded-xl border border-white/5 text-xs">
+                         <p className="text-white/40">Settings, sources, streams, favorites, history, progress, bookmarks and playlists. Local files, downloads and the Google API key stay on this device.</p>
+                         <div className="flex gap-2">
+                             <button onClick={onExportBackup} className="flex-1 py-2 bg-primary text-black font-bold rounded-lg flex items-center justify-center gap-2"><Icons.Download className="w-3 h-3" /> Export</button>
+                             <label className="flex-1 py-2 border border-white/10 text-white/80 rounded-lg flex items-center justify-center gap-2 cursor-pointer hover:bg-white/5">
+                                 <Icons.Folder className="w-3 h-3" /> Import
+                                 <input type="file" accept="application/json,.json" className="hidden" onChange={e => { setBackupFile(e.target.files?.[0] || null); e.target.value = ''; }} />
+                             </label>
+                         </div>
+                         {backupFile && (
+                             <div className="space-y-2 pt-2 border-t border-white/5">
+                                 <p className="text-white/60 truncate">{backupFile.name}</p>
+                                 <div className="flex gap-2">
+                                     <button onClick={() => { onRestoreBackup(backupFile, 'merge'); setBackupFile(null); }} className="flex-1 py-1.5 bg-primary text-black font-bold rounded">Merge</button>
+                                     <button onClick={() => { onRestoreBackup(backupFile, 'replace'); setBackupFile(null); }} className="flex-1 py-1.5 border border-red-500/30 text-red-400 rounded">Replace</button>
+                                     <button onClick={() => setBackupFile(null)} className="px-2 text-white/40 hover:text-white"><Icons.Close className="w-3 h-3" /></button>
+                                 </div>
+                             </div>
+                         )}
+                     </div>
+                 </div>
+
+                 {/* Keyboard Shortcuts */}
+                 <div>
+                     <label className="text-sm font-medium text-white/70 block mb-3">Keyboard Shortcuts</label>
+                     <ShortcutSettings overrides={settings.shortcuts} onChange={(shortcuts) => updateSetting('shortcuts', shortcuts)} />
+                 </div>
+
                  <button onClick={() => { onClearData(); setShowSettings(false); }} className="w-full text-red-400 text-xs py-3 border border-red-500/20 rounded-lg hover:bg-red-500/10 transition">Reset All Data</button>
               </div>
            </div>
         </div>
       )}
 
+      {/* Video Actions Sheet */}
+      {menuVideo && (
+        <div className="fixed inset-0 z-50 flex items-end sm:items-center justify-center bg-black/70 backdrop-blur-sm animate-fade-in" onClick={() => setMenuVideo(null)}>
+           <div className="bg-[#1E1E1E] w-full sm:max-w-sm rounded-t-2xl sm:rounded-2xl border border-white/10 overflow-hidden" onClick={e => e.stopPropagation()}>
+               <div className="p-4 border-b border-white/10 text-sm font-medium truncate">{menuVideo.name}</div>
+               <button onClick={() => { onPlayNext(menuVideo); setMenuVideo(null); }} className="w-full flex items-center gap-3 px-4 py-3 text-sm text-white/80 hover:bg-white/5 transition"><Icons.PlayNext className="w-4 h-4" /> Play Next</button>
+               <button onClick={() => { onAddToQueue(menuVideo); setMenuVideo(null); }} className="w-full flex items-center gap-3 px-4 py-3 text-sm text-white/80 hover:bg-white/5 transition"><Icons.AddToQueue className="w-4 h-4" /> Add to Queue</button>
+               {offlineIds.has(menuVideo.id) ? (
+                   <button onClick={() => { onRemoveOffline(menuVideo.id); setMenuVideo(null); }} className="w-full flex items-center gap-3 px-4 py-3 text-sm text-red-400 hover:bg-white/5 transition"><Icons.Trash className="w-4 h-4" /> Remove Download</button>
+               ) : downloads[menuVideo.id] ? (
+                   <div className="flex border-t border-white/5">
+                       {downloads[menuVideo.id].status === 'downloading' ? (
+                           <button onClick={() => onPauseDownload(menuVideo.id)} className="flex-1 flex items-center justify-center gap-2 px-4 py-3 text-sm text-white/80 hover:bg-white/5 transition"><Icons.Pause className="w-4 h-4" /> Pause</button>
+                       ) : (
+                           <button onClick={() => onResumeDownload(menuVideo.id)} className="flex-1 flex items-center justify-center gap-2 px-4 py-3 text-sm text-white/80 hover:bg-white/5 transition"><Icons.Play className="w-4 h-4" /> {downloads[menuVideo.id].status === 'error' ? 'Retry' : 'Resume'}</button>
+                       )}
+                       <button onClick={() => { onCancelDownload(menuVideo.id); setMenuVideo(null); }} className="flex-1 flex items-center justify-center gap-2 px-4 py-3 text-sm text-red-400 hover:bg-white/5 transition"><Icons.Close className="w-4 h-4" /> Cancel</button>
+                   </div>
+               ) : canDownload(menuVideo) && (
+                   <button onClick={() => { onDownload(menuVideo); setMenuVideo(null); }} className="w-full flex items-center gap-3 px-4 py-3 text-sm text-white/80 hover:bg-white/5 transition"><Icons.Download className="w-4 h-4" /> Download for Offline</button>
+               )}
+               {openPlaylist && (
+                   <button onClick={() => { onRemoveFromPlaylist(openPlaylist.id, menuVideo.id); setMenuVideo(null); }} className="w-full flex items-center gap-3 px-4 py-3 text-sm text-red-400 hover:bg-white/5 transition"><Icons.Trash className="w-4 h-4" /> Remove from {openPlaylist.name}</button>
+               )}
+               <div className="px-4 pt-3 pb-1 text-xs font-bold text-white/40 uppercase tracking-wider border-t border-white/5">Add to Playlist</div>
+               <div className="max-h-48 overflow-y-auto no-scrollbar">
+                   {playlists.map(p => (
+                       <button key={p.id} onClick={() => { onAddToPlaylist(p.id, menuVideo.id); setMenuVideo(null); }} className="w-full flex items-center justify-between px-4 py-3 text-sm text-white/80 hover:bg-white/5 transition">
+                           <span className="flex items-center gap-3 truncate"><Icons.ListPlus className="w-4 h-4 flex-shrink-0" /> {p.name}</span>
+                           {p.videoIds.includes(menuVideo.id) && <Icons.Check className="w-4 h-4 text-primary" />}
+                       </button>
+                   ))}
+               </div>
+               <button onClick={() => { promptNewPlaylist([menuVideo.id]); setMenuVideo(null); }} className="w-full flex items-center gap-3 px-4 py-3 text-sm text-primary hover:bg-white/5 transition"><Icons.Plus className="w-4 h-4" /> New Playlist</button>
+           </div>
+        </div>
+      )}
+
       {/* Stream Modal */}
       {showStreamModal && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4">
@@ -432,6 +1038,8 @@ export const VideoList: React.FC<VideoListProps> = ({
            </div>
         </div>
       )}
+
+      {showShortcuts && <ShortcutsOverlay bindings={shortcuts} scope="library" onClose={() => setShowShortcuts(false)} />}
     </div>
   );
 };
\ No newline at end of file
@@ -1,41 +1,131 @@
-import React, { useRef, useState, useEffect, useCallback } from 'react';
-import { VideoFile, PlayerState, GestureAction, GestureSensitivity } from '../types';
+import React, { useRef, useState, useEffect, useCallback, useMemo } from 'react';
+import { VideoFile, PlayerState, GestureAction, GestureSensitivity, SubtitleTrack, SubtitleStyle, StreamQuality, Storyboard, Marker, LoopRange, AudioAnalysis, AudioEffects, VideoAdjustments, TimeDisplay, ShortcutAction, PlayerAction } from '../types';
 import { PlayerControls } from './PlayerControls';
-import { CONTROLS_HIDE_DELAY, DOUBLE_TAP_DELAY } from '../constants';
+import { AudioView } from './AudioView';
+import { MiniPlayer } from './MiniPlayer';
+import { AdjustmentsPanel } from './AdjustmentsPanel';
+import { GoToTimeDialog } from './GoToTimeDialog';
+import { SubtitleOverlay } from './SubtitleOverlay';
+import { QueuePanel } from './QueuePanel';
+import { MarkersPanel } from './MarkersPanel';
+import { ShortcutsOverlay } from './ShortcutsOverlay';
+import { CONTROLS_HIDE_DELAY, DOUBLE_TAP_DELAY, PROGRESS_SAVE_INTERVAL, DEFAULT_SUBTITLE_STYLE, SUBTITLE_DELAY_STEP, MAX_SUBTITLE_DELAY, AUTO_QUALITY, MIN_LOOP_LENGTH, DEFAULT_AUDIO_EFFECTS, MAX_VOLUME_BOOST, VOLUME_STEP, DEFAULT_VIDEO_ADJUSTMENTS, DEFAULT_FRAME_RATE, TIME_DISPLAYS, SPEED_STEP, MIN_SPEED, MAX_SPEED } from '../constants';
 import { Icons } from './Icons';
 import clsx from 'clsx';
-import { formatTime } from '../utils/time';
+import { formatTime, formatTimeAs, frameAt } from '../utils/time';
+import { parseSubtitles } from '../utils/subtitles';
+import { detectStreamKind, attachAdaptiveStream, StreamController } from '../utils/streaming';
+import { canCaptureFrames, buildStoryboard } from '../utils/thumbnails';
+import { createMarker, sortMarkers, parseVttChapters, nextMarker, prevMarker } from '../utils/markers';
+import { isAudioFile, analyzeAudio } from '../utils/waveform';
+import { getAudioGraph, canProcessAudio, hasAudioGraph, releaseAudioGraph } from '../utils/audioGraph';
+import { watchFrameRate, probeFrameRate, snapFrameRate, stepFrame } from '../utils/frames';
+import { matchShortcut, percentKey, isTypingTarget } from '../utils/shortcuts';
+import { isAdjusted, needsSvgFilter, cssFilter, mirrorTransform, cropClipPath, sharpenKernel } from '../utils/videoFilters';
+
+const ADJUSTMENTS_FILTER_ID = 'video-adjustments-filter';
 
 interface VideoPlayerProps {
   video: VideoFile;
   initialTime?: number;
+  resumeTime?: number; // Saved position to offer in the resume prompt
   initialPlaybackRate?: number;
+  initialSubtitlesEnabled?: boolean;
+  initialSubtitleTrackId?: string;
+  initialSubtitleDelay?: number;
+  initialSubtitleStyle?: SubtitleStyle;
+  initialLoopRange?: LoopRange;
+  initialAudioEffects?: AudioEffects;
+  initialVideoAdjustments?: VideoAdjustments;
+  subtitleTracks?: SubtitleTrack[];
   seekTime: number; 
+  timeDisplay: TimeDisplay;
+  onTimeDisplayChange: (display: TimeDisplay) => void;
+  shortcuts: Record<ShortcutAction, string[]>;
   autoPlayNext: boolean; 
   onClose: () => void;
-  onUpdateProgress: (time: number) => void;
+  minimized?: boolean; // Docked as a bar over the library, playback carries on
+  onMinimize?: () => void;
+  onExpand?: () => void;
+  onUpdateProgress: (time: number, duration: number) => void;
   onPlaybackRateChange?: (rate: number) => void;
+  onSubtitlesEnabledChange?: (enabled: boolean) => void;
+  onSubtitleTrackChange?: (trackId: string) => void;
+  onSubtitleDelayChange?: (delay: number) => void;
+  onSubtitleStyleChange?: (style: SubtitleStyle) => void;
+  onLoopRangeChange?: (range: LoopRange | null) => void;
+  onAudioEffectsChange?: (effects: AudioEffects) => void;
+  onVideoAdjustmentsChange?: (adjustments: VideoAdjustments) => void;
+  onAddSubtitleTrack?: (track: SubtitleTrack) => void;
+  markers?: Marker[]; // Saved bookmarks and imported chapters, the source's own chapters come from `video`
+  onAddBookmark?: (marker: Marker) => void;
+  onImportChapters?: (chapters: Marker[]) => void;
+  onRemoveMarker?: (id: string) => void;
   onNext?: () => void;
   onPrev?: () => void;
+  queue: VideoFile[];
+  shuffle: boolean;
+  repeatAll: boolean;
+  onSelectFromQueue: (video: VideoFile) => void;
+  onReorderQueue: (from: number, to: number) => void;
+  onRemoveFromQueue: (id: string) => void;
+  onToggleShuffle: () => void;
+  onToggleRepeat: () => void;
   addToast: (msg: string, type: 'success' | 'error' | 'info') => void;
 }
 
 export const VideoPlayer: React.FC<VideoPlayerProps> = ({ 
   video, 
   initialTime = 0, 
+  resumeTime,
   initialPlaybackRate = 1,
+  initialSubtitlesEnabled = true,
+  initialSubtitleTrackId,
+  initialSubtitleDelay = 0,
+  initialSubtitleStyle = DEFAULT_SUBTITLE_STYLE,
+  initialLoopRange,
+  initialAudioEffects = DEFAULT_AUDIO_EFFECTS,
+  initialVideoAdjustments = DEFAULT_VIDEO_ADJUSTMENTS,
+  subtitleTracks = [],
   seekTime,
+  timeDisplay,
+  onTimeDisplayChange,
+  shortcuts,
   autoPlayNext,
   onClose, 
+  minimized = false,
+  onMinimize,
+  onExpand,
   onUpdateProgress,
   onPlaybackRateChange,
+  onSubtitlesEnabledChange,
+  onSubtitleTrackChange,
+  onSubtitleDelayChange,
+  onSubtitleStyleChange,
+  onLoopRangeChange,
+  onAudioEffectsChange,
+  onVideoAdjustmentsChange,
+  onAddSubtitleTrack,
+  markers = [],
+  onAddBookmark,
+  onImportChapters,
+  onRemoveMarker,
   onNext,
   onPrev,
+  queue,
+  shuffle,
+  repeatAll,
+  onSelectFromQueue,
+  onReorderQueue,
+  onRemoveFromQueue,
+  onToggleShuffle,
+  onToggleRepeat,
   addToast
 }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const subtitleInputRef = useRef<HTMLInputElement>(null);
+  const chapterInputRef = useRef<HTMLInputElement>(null);
 
   const [state, setState] = useState<PlayerState>({
     playing: false,
@@ -56,6 +146,31 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
   });
 
   const [rotation, setRotation] = useState(0);
+  const [adjustments, setAdjustments] = useState<VideoAdjustments>(initialVideoAdjustments);
+
+  // Adaptive streaming (HLS/DASH)
+  const streamKind = detectStreamKind(video.url, video.type);
+  const isAdaptive = streamKind !== 'progressive';
+  const streamRef = useRef<StreamController | null>(null);
+  const [qualities, setQualities] = useState<StreamQuality[]>([]);
+  const [selectedQuality, setSelectedQuality] = useState(AUTO_QUALITY);
+  const [activeQuality, setActiveQuality] = useState<number | null>(null);
+  const [streamAttempt, setStreamAttempt] = useState(0);
+
+  const [subtitlesEnabled, setSubtitlesEnabled] = useState(initialSubtitlesEnabled);
+  const [activeTrackId, setActiveTrackId] = useState<string | null>(initialSubtitleTrackId ?? null);
+  const [subtitleDelay, setSubtitleDelay] = useState(initialSubtitleDelay);
+  const [subtitleStyle, setSubtitleStyle] = useState<SubtitleStyle>(initialSubtitleStyle);
+  const activeTrack = subtitleTracks.find(t => t.id === activeTrackId) || subtitleTracks[0];
+  const [audioEffects, setAudioEffects] = useState<AudioEffects>(initialAudioEffects);
+  const [audioProcessing, setAudioProcessing] = useState(false); // Whether this source can go through Web Audio
+  const volumeLevel = state.volume * (audioProcessing ? audioEffects.boost : 1); // Past 100% the element is at full volume and the graph adds gain
+
+  // A graph keeps its element for good, so once one was built the next source gets a fresh element
+  const [media, setMedia] = useState({ videoId: video.id, key: 0 });
+  if (media.videoId !== video.id) {
+    setMedia({ videoId: video.id, key: videoRef.current && hasAudioGraph(videoRef.current) ? media.key + 1 : media.key });
+  }
 
   const [sensitivity, setSensitivity] = useState<GestureSensitivity>({
     volume: 1,
@@ -64,6 +179,26 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
   });
   
   const [showSettings, setShowSettings] = useState(false);
+  const [showQueue, setShowQueue] = useState(false);
+  const [showMarkers, setShowMarkers] = useState(false);
+  const [showAdjustments, setShowAdjustments] = useState(false);
+  const [showGoTo, setShowGoTo] = useState(false);
+  const [showShortcuts, setShowShortcuts] = useState(false);
+  const [frameRate, setFrameRate] = useState(DEFAULT_FRAME_RATE);
+  const [frameRateKnown, setFrameRateKnown] = useState(false); // Frame numbers are estimates until then
+  // A-B loop: `loopStart` holds point A until B is set
+  const [loopStart, setLoopStart] = useState<number | null>(null);
+  const [loopRange, setLoopRange] = useState<LoopRange | null>(initialLoopRange ?? null);
+  const loopPassRef = useRef(0);
+  const loopDoneRef = useRef(false);
+  const loopGapTimerRef = useRef<ReturnType<typeof setTimeout>>();
+  const allMarkers = useMemo(() => sortMarkers([...(video.chapters || []), ...markers]), [video.chapters, markers]);
+  const [storyboard, setStoryboard] = useState<{ data: Storyboard; url: string } | null>(null);
+  const isAudio = isAudioFile(video);
+  const [audioInfo, setAudioInfo] = useState<{ data: AudioAnalysis; coverUrl?: string } | null>(null);
+  const coverUrl = audioInfo?.coverUrl || video.thumbnail;
+  const [resumePrompt, setResumePrompt] = useState<number | null>(resumeTime ?? null);
+  const resumePromptRef = useRef(resumePrompt !== null); // Holds autoplay until the user picks
 
   const [gesture, setGesture] = useState<{
     active: boolean;
@@ -82,6 +217,7 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
   const pinchStartDistRef = useRef<number>(0);
   const initialScaleRef = useRef<number>(1);
   const initialValueRef = useRef<number>(0);
+  const lastSavedTimeRef = useRef<number>(initialTime);
   
   // Long Press Refs
   const longPressTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -94,70 +230,241 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
       videoRef.current.volume = state.volume;
       videoRef.current.currentTime = initialTime;
       videoRef.current.playbackRate = initialPlaybackRate;
-      videoRef.current.play().catch((e) => {
-         console.warn("Autoplay blocked or failed", e);
-      });
+      if (resumeTime === undefined) {
+        videoRef.current.play().catch((e) => {
+           console.warn("Autoplay blocked or failed", e);
+        });
+      }
       setState(s => ({ ...s, scale: 1, error: null }));
       setRotation(0);
     }
+    lastSavedTimeRef.current = initialTime;
+    setResumePrompt(resumeTime ?? null);
+    resumePromptRef.current = resumeTime !== undefined;
+    setSubtitlesEnabled(initialSubtitlesEnabled);
+    setActiveTrackId(initialSubtitleTrackId ?? null);
+    setSubtitleDelay(initialSubtitleDelay);
+    setSubtitleStyle(initialSubtitleStyle);
+    setAudioEffects(initialAudioEffects);
+    setAudioProcessing(false);
+    setAdjustments(initialVideoAdjustments);
+    setLoopStart(null);
+    setLoopRange(initialLoopRange ?? null);
+    resetLoopPasses();
     resetControlsTimer();
     return () => clearTimeout(controlsTimeoutRef.current);
   }, [video.id]);
 
+  // Attach HLS/DASH manifests through MSE; progressive files use the src attribute
+  useEffect(() => {
+    setQualities([]);
+    setSelectedQuality(AUTO_QUALITY);
+    setActiveQuality(null);
+    if (streamKind === 'progressive' || !videoRef.current) return;
+
+    let cancelled = false;
+    let controller: StreamController | null = null;
+    const onStreamError = (message: string) => {
+      if (cancelled) return;
+      console.error("Stream error:", message);
+      handleError();
+    };
+
+    attachAdaptiveStream(videoRef.current, video.url, streamKind, {
+      onQualities: (list) => {
+        if (cancelled) return;
+        setQualities(list);
+        const declared = list.find(q => q.frameRate)?.frameRate;
+        if (declared) foundFrameRate(snapFrameRate(declared));
+      },
+      onQualityChange: (index) => { if (!cancelled) setActiveQuality(index); },
+      onError: onStreamError
+    }).then(c => {
+      if (cancelled) { c.destroy(); return; }
+      controller = c;
+      streamRef.current = c;
+      if (!resumePromptRef.current) videoRef.current?.play().catch((e) => console.warn("Autoplay blocked or failed", e));
+    }).catch(e => onStreamError(e instanceof Error ? e.message : String(e)));
+
+    return () => {
+      cancelled = true;
+      controller?.destroy();
+      streamRef.current = null;
+    };
+  }, [video.url, streamKind, streamAttempt, media.key]);
+
+  // Remote tracks (e.g. a sheet's subtitle column) are fetched the first time they're shown
+  useEffect(() => {
+    if (!subtitlesEnabled || !activeTrack?.url || activeTrack.cues.length > 0) return;
+
+    let cancelled = false;
+    const track = activeTrack;
+    fetch(track.url!)
+      .then(response => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return response.text();
+      })
+      .then(text => {
+        if (cancelled) return;
+        const cues = parseSubtitles(text, track.url!);
+        if (cues.length === 0) throw new Error('No cues found');
+        if (onAddSubtitleTrack) onAddSubtitleTrack({ ...track, cues });
+      })
+      .catch(e => {
+        console.warn("Could not load remote subtitles", e);
+        if (!cancelled) addToast("Could not load subtitles", "error");
+      });
+
+    return () => { cancelled = true; };
+  }, [activeTrack?.id, activeTrack?.cues.length, subtitlesEnabled]);
+
+  // Seek preview frames, built on demand when the background job hasn't reached this file yet
+  useEffect(() => {
+    setStoryboard(null);
+    if (video.sourceType !== 'local' || !canCaptureFrames(video)) return;
+
+    let cancelled = false;
+    let spriteUrl: string | null = null;
+    buildStoryboard(video).then(data => {
+      if (cancelled || !data) return;
+      spriteUrl = URL.createObjectURL(data.sprite);
+      setStoryboard({ data, url: spriteUrl });
+    }).catch(e => console.warn("Could not load storyboard", e));
+
+    return () => {
+      cancelled = true;
+      if (spriteUrl) URL.revokeObjectURL(spriteUrl);
+    };
+  }, [video.id]);
+
+  // Routes the element through Web Audio once any effect is on
+  const applyAudioEffects = (effects: AudioEffects) => {
+    const graph = videoRef.current && getAudioGraph(videoRef.current, effects);
+    if (!graph) return;
+    graph.apply(effects);
+    graph.resume();
+  };
+
+  useEffect(() => applyAudioEffects(audioEffects), [audioEffects]);
+
+  useEffect(() => {
+    const element = videoRef.current;
+    return () => { if (element) releaseAudioGraph(element); };
+  }, [media.key]);
+
+  const foundFrameRate = (fps: number) => {
+    setFrameRate(fps);
+    setFrameRateKnown(true);
+  };
+
+  // Frame stepping and frame numbers use it. Manifests may declare it and local files get a short hidden probe;
+  // remote files would be downloaded twice for that, so playback measures it from the frames presented.
+  useEffect(() => {
+    setFrameRate(DEFAULT_FRAME_RATE);
+    setFrameRateKnown(false);
+    if (isAudio || !videoRef.current) return;
+    const stopWatching = watchFrameRate(videoRef.current, foundFrameRate);
+    const stopProbe = video.url.startsWith('blob:') ? probeFrameRate(video.url, foundFrameRate) : () => undefined;
+    return () => {
+      stopWatching();
+      stopProbe();
+    };
+  }, [video.id]);
+
+  // Waveform and embedded tags for the audio view
+  useEffect(() => {
+    setAudioInfo(null);
+    if (!isAudio) return;
+
+    let cancelled = false;
+    let url: string | undefined;
+    analyzeAudio(video).then(data => {
+      if (cancelled || !data) return;
+      url = data.cover ? URL.createObjectURL(data.cover) : undefined;
+      setAudioInfo({ data, coverUrl: url });
+    });
+
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [video.id]);
+
   // Keyboard Shortcuts
   useEffect(() => {
+      const showVolume = (level: number) => {
+          setGesture({ active: true, type: GestureAction.VOLUME, value: level, delta: 0, text: `${Math.round(level * 100)}%` });
+          setTimeout(() => setGesture(null), 1000);
+      };
+      const stepSpeed = (direction: 1 | -1) => {
+          const speed = Math.min(MAX_SPEED, Math.max(MIN_SPEED, Math.round(state.playbackRate / SPEED_STEP) * SPEED_STEP + direction * SPEED_STEP));
+          if (speed !== state.playbackRate) changeSpeed(speed);
+      };
+
+      const actions: Record<PlayerAction, () => void> = {
+          playPause: togglePlay,
+          seekBackward: () => handleSeek(state.currentTime - seekTime),
+          seekForward: () => handleSeek(state.currentTime + seekTime),
+          prevFrame: () => stepFrames(-1),
+          nextFrame: () => stepFrames(1),
+          goToTime: () => setShowGoTo(true),
+          cycleTimeDisplay,
+          speedDown: () => stepSpeed(-1),
+          speedUp: () => stepSpeed(1),
+          volumeUp: () => showVolume(changeVolumeLevel(volumeLevel + VOLUME_STEP)),
+          volumeDown: () => showVolume(changeVolumeLevel(volumeLevel - VOLUME_STEP)),
+          mute: () => {
+              if (!videoRef.current) return;
+              const newMute = videoRef.current.volume > 0 ? 0 : 1;
+              videoRef.current.volume = newMute;
+              setState(s => ({ ...s, volume: newMute }));
+          },
+          fullscreen: () => {
+              if (document.fullscreenElement) document.exitFullscreen();
+              else containerRef.current?.requestFullscreen();
+          },
+          prevVideo: () => onPrev?.(),
+          nextVideo: () => onNext?.(),
+          toggleSubtitles,
+          subtitleDelayDown: () => changeSubtitleDelay(subtitleDelay - SUBTITLE_DELAY_STEP),
+          subtitleDelayUp: () => changeSubtitleDelay(subtitleDelay + SUBTITLE_DELAY_STEP),
+          addBookmark,
+          prevMarker: () => jumpToMarker(prevMarker(allMarkers, state.currentTime)),
+          nextMarker: () => jumpToMarker(nextMarker(allMarkers, state.currentTime)),
+          cycleLoop,
+          toggleQueue: () => { setShowQueue(p => !p); setShowMarkers(false); setShowSettings(false); setShowAdjustments(false); },
+          toggleChapters: () => { setShowMarkers(p => !p); setShowQueue(false); setShowSettings(false); setShowAdjustments(false); },
+          togglePicture: () => { setShowAdjustments(p => !p); setShowMarkers(false); setShowQueue(false); setShowSettings(false); }
+      };
+
       const handleKeyDown = (e: KeyboardEvent) => {
-          if (state.isLocked) return;
-          
-          switch(e.code) {
-              case 'Space':
-              case 'KeyK':
-                  e.preventDefault();
-                  togglePlay();
-                  break;
-              case 'ArrowRight':
-              case 'KeyL':
-                  e.preventDefault();
-                  handleSeek(state.currentTime + seekTime);
-                  break;
-              case 'ArrowLeft':
-              case 'KeyJ':
-                  e.preventDefault();
-                  handleSeek(state.currentTime - seekTime);
-                  break;
-              case 'ArrowUp':
-                  e.preventDefault();
-                  const newVolUp = Math.min(1, state.volume + 0.1);
-                  if (videoRef.current) videoRef.current.volume = newVolUp;
-                  setState(s => ({ ...s, volume: newVolUp }));
-                  setGesture({ active: true, type: GestureAction.VOLUME, value: newVolUp, delta: 0, text: `${Math.round(newVolUp * 100)}%` });
-                  setTimeout(() => setGesture(null), 1000);
-                  break;
-              case 'ArrowDown':
-                  e.preventDefault();
-                  const newVolDown = Math.max(0, state.volume - 0.1);
-                  if (videoRef.current) videoRef.current.volume = newVolDown;
-                  setState(s => ({ ...s, volume: newVolDown }));
-                  setGesture({ active: true, type: GestureAction.VOLUME, value: newVolDown, delta: 0, text: `${Math.round(newVolDown * 100)}%` });
-                  setTimeout(() => setGesture(null), 1000);
-                  break;
-              case 'KeyF':
-                  if (document.fullscreenElement) document.exitFullscreen();
-                  else containerRef.current?.requestFullscreen();
-                  break;
-              case 'KeyM':
-                  if (videoRef.current) {
-                      const newMute = videoRef.current.volume > 0 ? 0 : 1;
-                      videoRef.current.volume = newMute;
-                      setState(s => ({ ...s, volume: newMute }));
-                  }
-                  break;
+          // The library, the dialogs and text fields own the keyboard
+          if (state.isLocked || minimized || showGoTo || isTypingTarget(e.target)) return;
+
+          const action = matchShortcut(e, shortcuts, 'player');
+          if (action === 'showShortcuts') {
+              e.preventDefault();
+              setShowShortcuts(p => !p);
+              return;
           }
+          if (showShortcuts) return;
+
+          const percent = percentKey(e);
+          if (percent !== null && state.duration > 0) {
+              e.preventDefault();
+              handleSeek(state.duration * percent / 100);
+              return;
+          }
+          if (!action || !(action in actions)) return;
+          e.preventDefault(); // Also keeps the "t" out of the go-to dialog's input
+          actions[action as PlayerAction]();
       };
 
       window.addEventListener('keydown', handleKeyDown);
       return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [state.isLocked, state.currentTime, state.volume, seekTime]);
+  }, [shortcuts, state.isLocked, minimized, showGoTo, showShortcuts, frameRate, frameRateKnown, timeDisplay, state.currentTime, state.duration, state.volume, state.playbackRate, audioEffects, seekTime, subtitlesEnabled, subtitleTracks.length, subtitleDelay, onNext, onPrev, allMarkers, loopStart, loopRange]);
+
+  useEffect(() => () => clearTimeout(loopGapTimerRef.current), []);
 
   // Sleep Timer
   useEffect(() => {
@@ -181,46 +488,78 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
   // Media Session & Wake Lock
   useEffect(() => {
       if ('mediaSession' in navigator && videoRef.current) {
-          navigator.mediaSession.metadata = new MediaMetadata({ title: video.name });
+          const tags = audioInfo?.data;
+          navigator.mediaSession.metadata = new MediaMetadata({
+              title: tags?.title || video.name,
+              artist: tags?.artist || '',
+              album: tags?.album || video.sheetName || '',
+              artwork: coverUrl ? [{ src: coverUrl }] : []
+          });
           navigator.mediaSession.setActionHandler('play', togglePlay);
           navigator.mediaSession.setActionHandler('pause', togglePlay);
           navigator.mediaSession.setActionHandler('seekbackward', () => handleSeek(state.currentTime - seekTime));
           navigator.mediaSession.setActionHandler('seekforward', () => handleSeek(state.currentTime + seekTime));
-          if (onNext) navigator.mediaSession.setActionHandler('nexttrack', onNext);
-          if (onPrev) navigator.mediaSession.setActionHandler('previoustrack', onPrev);
+          navigator.mediaSession.setActionHandler('seekto', (details) => { if (details.seekTime !== undefined) handleSeek(details.seekTime); });
+          navigator.mediaSession.setActionHandler('nexttrack', onNext || null);
+          navigator.mediaSession.setActionHandler('previoustrack', onPrev || null);
       }
-      // Wake Lock
+      // Wake Lock, audio is left to play with the screen off
       let wakeLock: any = null;
-      const req = async () => { if ('wakeLock' in navigator && state.playing) { try { wakeLock = await (navigator as any).wakeLock.request('screen'); } catch(e){} } };
+      const req = async () => { if ('wakeLock' in navigator && state.playing && !isAudio) { try { wakeLock = await (navigator as any).wakeLock.request('screen'); } catch(e){} } };
       req();
       return () => wakeLock?.release();
-  }, [state.playing, video.name, seekTime]);
+  }, [state.playing, video.name, seekTime, audioInfo, coverUrl, onNext, onPrev]);
+
+  // Lock screen scrubber
+  useEffect(() => {
+      if (!('mediaSession' in navigator) || !state.duration || !isFinite(state.duration)) return;
+      try {
+          navigator.mediaSession.setPositionState({
+              duration: state.duration,
+              playbackRate: state.playbackRate,
+              position: Math.min(state.currentTime, state.duration)
+          });
+      } catch (e) {
+          console.warn("Could not update media position", e);
+      }
+  }, [Math.floor(state.currentTime), state.duration, state.playbackRate]);
 
   const resetControlsTimer = useCallback(() => {
     clearTimeout(controlsTimeoutRef.current);
     setState(s => ({ ...s, showControls: true }));
-    if (!state.playing) return;
+    if (!state.playing || isAudio) return; // Nothing to uncover behind the audio view
     
     controlsTimeoutRef.current = setTimeout(() => {
-      if (!state.isLocked && !showSettings) {
+      if (!state.isLocked && !showSettings && !showQueue && !showMarkers && !showAdjustments) {
           setState(s => ({ ...s, showControls: false }));
       }
     }, CONTROLS_HIDE_DELAY);
-  }, [state.playing, state.isLocked, showSettings]);
+  }, [state.playing, state.isLocked, isAudio, showSettings, showQueue, showMarkers, showAdjustments]);
 
   // Video Handlers
   const handleTimeUpdate = () => {
     if (videoRef.current) {
       const time = videoRef.current.currentTime;
       setState(s => ({ ...s, currentTime: time }));
-      if (Math.abs(time - state.currentTime) > 1) onUpdateProgress(time);
+      if (Math.abs(time - lastSavedTimeRef.current) >= PROGRESS_SAVE_INTERVAL) saveProgress(time);
+      checkLoopBoundary(time);
     }
   };
 
+  const saveProgress = (time: number) => {
+    lastSavedTimeRef.current = time;
+    onUpdateProgress(time, videoRef.current?.duration || 0);
+  };
+
   const handleLoadedMetadata = () => {
     if (videoRef.current) {
       if (Math.abs(videoRef.current.currentTime - initialTime) > 1) videoRef.current.currentTime = initialTime;
       setState(s => ({ ...s, duration: videoRef.current!.duration }));
+      // Known only now, streams get their blob URL once attached
+      setAudioProcessing(canProcessAudio(videoRef.current));
+      applyAudioEffects(audioEffects);
+      // Records the duration, keeping the saved position while the resume prompt is unanswered
+      saveProgress(resumePromptRef.current && resumeTime !== undefined ? resumeTime : initialTime);
     }
   };
 
@@ -229,10 +568,17 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
       addToast("Failed to load video", "error");
   };
 
-  const handlePlaying = () => setState(s => ({ ...s, playing: true, isBuffering: false, error: null }));
-  const handlePause = () => setState(s => ({ ...s, playing: false }));
+  const handlePlaying = () => {
+      setState(s => ({ ...s, playing: true, isBuffering: false, error: null }));
+      if (videoRef.current) getAudioGraph(videoRef.current)?.resume(); // A context made without a user gesture starts suspended
+  };
+  const handlePause = () => {
+      setState(s => ({ ...s, playing: false }));
+      if (videoRef.current) saveProgress(videoRef.current.currentTime);
+  };
   const handleWaiting = () => setState(s => ({ ...s, isBuffering: true }));
   const handleEnded = () => {
+      if (videoRef.current) saveProgress(videoRef.current.duration);
       setState(s => ({ ...s, playing: false, showControls: true }));
       if (autoPlayNext && onNext) onNext();
   };
@@ -252,10 +598,11 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
 
   const handleSeek = (time: number) => {
     if (videoRef.current) {
+      if (loopRange && time < loopRange.end) resetLoopPasses(); // Seeking back into the segment starts a fresh round
       videoRef.current.currentTime = time;
       setState(s => ({ ...s, currentTime: time }));
       resetControlsTimer();
-      onUpdateProgress(time);
+      saveProgress(time);
     }
   };
 
@@ -272,6 +619,21 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
     }
   }, [resetControlsTimer]);
 
+  const answerResumePrompt = (resume: boolean) => {
+    const time = resume && resumePrompt !== null ? resumePrompt : 0;
+    setResumePrompt(null);
+    resumePromptRef.current = false;
+    handleSeek(time);
+    videoRef.current?.play().catch(e => console.warn("Autoplay blocked or failed", e));
+  };
+
+  const changeQuality = (index: number) => {
+    streamRef.current?.setQuality(index);
+    setSelectedQuality(index);
+    const label = qualities.find(q => q.index === index)?.label;
+    addToast(label ? `Quality: ${label}` : "Quality: Auto", "info");
+  };
+
   const changeSpeed = (speed: number) => {
     if (videoRef.current) videoRef.current.playbackRate = speed;
     setState(s => ({ ...s, playbackRate: speed }));
@@ -279,6 +641,212 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
     addToast(`Speed: ${speed}x`, "info");
   };
 
+  // Subtitles
+  const toggleSubtitles = () => {
+    if (subtitleTracks.length === 0) {
+      subtitleInputRef.current?.click();
+      return;
+    }
+    const enabled = !subtitlesEnabled;
+    setSubtitlesEnabled(enabled);
+    if (onSubtitlesEnabledChange) onSubtitlesEnabledChange(enabled);
+    addToast(enabled ? "Subtitles On" : "Subtitles Off", "info");
+  };
+
+  const selectSubtitleTrack = (trackId: string) => {
+    setActiveTrackId(trackId);
+    if (onSubtitleTrackChange) onSubtitleTrackChange(trackId);
+    if (!subtitlesEnabled) {
+      setSubtitlesEnabled(true);
+      if (onSubtitlesEnabledChange) onSubtitlesEnabledChange(true);
+    }
+  };
+
+  const changeSubtitleDelay = (delay: number) => {
+    const clamped = Math.max(-MAX_SUBTITLE_DELAY, Math.min(MAX_SUBTITLE_DELAY, delay));
+    const rounded = Math.round(clamped * 10) / 10; // Avoid float drift from repeated steps
+    setSubtitleDelay(rounded);
+    if (onSubtitleDelayChange) onSubtitleDelayChange(rounded);
+    setGesture({ active: true, type: GestureAction.NONE, value: rounded, delta: 0, text: `Subtitle delay ${rounded > 0 ? '+' : ''}${rounded.toFixed(1)}s` });
+    setTimeout(() => setGesture(null), 1000);
+  };
+
+  const changeSubtitleStyle = (style: SubtitleStyle) => {
+    setSubtitleStyle(style);
+    if (onSubtitleStyleChange) onSubtitleStyleChange(style);
+  };
+
+  const stepFrames = (direction: 1 | -1) => {
+    if (!videoRef.current || isAudio) return;
+    stepFrame(videoRef.current, direction, frameRate).then(time => {
+      setState(s => ({ ...s, currentTime: time }));
+      setGesture({ active: true, type: GestureAction.NONE, value: time, delta: 0, text: `${frameRateKnown ? '' : '~'}Frame ${frameAt(time, frameRate)}` });
+      setTimeout(() => setGesture(null), 1000);
+    }).catch(e => console.warn("Frame step failed", e));
+  };
+
+  const cycleTimeDisplay = () => {
+    const next = TIME_DISPLAYS[(TIME_DISPLAYS.indexOf(timeDisplay) + 1) % TIME_DISPLAYS.length];
+    onTimeDisplayChange(next);
+    setGesture({ active: true, type: GestureAction.NONE, value: state.currentTime, delta: 0, text: `${next === 'frames' && !frameRateKnown ? '~' : ''}${formatTimeAs(state.currentTime, next, frameRate)}` });
+    setTimeout(() => setGesture(null), 1000);
+  };
+
+  const changeAdjustments = (next: VideoAdjustments) => {
+    setAdjustments(next);
+    if (onVideoAdjustmentsChange) onVideoAdjustmentsChange(next);
+  };
+
+  const changeAudioEffects = (effects: AudioEffects) => {
+    setAudioEffects(effects);
+    if (onAudioEffectsChange) onAudioEffectsChange(effects);
+  };
+
+  // 0 - MAX_VOLUME_BOOST: the element's volume covers up to 100%, the boost gain the rest
+  const changeVolumeLevel = (level: number): number => {
+    const clamped = Math.round(Math.max(0, Math.min(audioProcessing ? MAX_VOLUME_BOOST : 1, level)) * 100) / 100;
+    const volume = Math.min(1, clamped);
+    if (videoRef.current) videoRef.current.volume = volume;
+    setState(s => ({ ...s, volume }));
+    const boost = Math.max(1, clamped);
+    if (audioProcessing && boost !== audioEffects.boost) changeAudioEffects({ ...audioEffects, boost });
+    return clamped;
+  };
+
+  const handleSubtitleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-selecting the same file
+    if (!file) return;
+
+    try {
+      const cues = parseSubtitles(await file.text(), file.name);
+      if (cues.length === 0) throw new Error('No cues found');
+
+      const track: SubtitleTrack = {
+        id: `sub-${file.name}-${file.lastModified}`,
+        label: file.name.replace(/\.(srt|vtt)$/i, ''),
+        cues
+      };
+      if (onAddSubtitleTrack) onAddSubtitleTrack(track);
+      selectSubtitleTrack(track.id);
+      addToast(`Loaded ${cues.length} subtitles`, "success");
+    } catch (err) {
+      console.error("Failed to parse subtitles", err);
+      addToast("Could not read subtitle file", "error");
+    }
+  };
+
+  // A-B Loop
+  const resetLoopPasses = () => {
+    loopPassRef.current = 0;
+    loopDoneRef.current = false;
+    clearTimeout(loopGapTimerRef.current);
+    loopGapTimerRef.current = undefined;
+  };
+
+  const applyLoopRange = (range: LoopRange | null) => {
+    setLoopRange(range);
+    resetLoopPasses();
+    if (onLoopRangeChange) onLoopRangeChange(range);
+  };
+
+  // Only reacts to playback crossing B, so seeking past the segment is still possible
+  const checkLoopBoundary = (time: number) => {
+    const video = videoRef.current;
+    if (!video || !loopRange || loopDoneRef.current || loopGapTimerRef.current) return;
+    if (time < loopRange.end || time > loopRange.end + 2) return;
+
+    loopPassRef.current++;
+    if (loopRange.repeats > 0 && loopPassRef.current >= loopRange.repeats) {
+      loopDoneRef.current = true;
+      addToast("Loop finished", "info");
+      return;
+    }
+
+    if (loopRange.gap > 0) {
+      video.pause();
+      loopGapTimerRef.current = setTimeout(() => {
+        loopGapTimerRef.current = undefined;
+        video.currentTime = loopRange.start;
+        video.play().catch(e => console.warn("Could not resume loop", e));
+      }, loopRange.gap * 1000);
+    } else {
+      video.currentTime = loopRange.start;
+    }
+  };
+
+  const setLoopPoint = (point: 'a' | 'b') => {
+    const time = videoRef.current?.currentTime ?? state.currentTime;
+    if (point === 'a') {
+      if (loopRange && time < loopRange.end - MIN_LOOP_LENGTH) {
+        applyLoopRange({ ...loopRange, start: time });
+      } else {
+        if (loopRange) applyLoopRange(null);
+        setLoopStart(time);
+      }
+      addToast(`Point A: ${formatTime(time)}`, "info");
+      return;
+    }
+
+    const start = loopStart ?? loopRange?.start;
+    if (start === undefined) {
+      addToast("Set point A first", "error");
+      return;
+    }
+    if (time < start + MIN_LOOP_LENGTH) {
+      addToast("Point B must come after A", "error");
+      return;
+    }
+    setLoopStart(null);
+    applyLoopRange({ start, end: time, repeats: loopRange?.repeats ?? 0, gap: loopRange?.gap ?? 0 });
+    handleSeek(start);
+    addToast(`Looping ${formatTime(start)} - ${formatTime(time)}`, "success");
+  };
+
+  const clearLoop = () => {
+    setLoopStart(null);
+    applyLoopRange(null);
+    addToast("A-B Loop Off", "info");
+  };
+
+  // One button/key walks through A, B and off
+  const cycleLoop = () => {
+    if (loopRange) clearLoop();
+    else setLoopPoint(loopStart === null ? 'a' : 'b');
+  };
+
+  // Chapters & Bookmarks
+  const addBookmark = () => {
+    const time = videoRef.current?.currentTime ?? state.currentTime;
+    const fallback = `Bookmark at ${formatTime(time)}`;
+    const label = window.prompt('Bookmark name', fallback);
+    if (label === null) return;
+    if (onAddBookmark) onAddBookmark(createMarker(time, label.trim() || fallback, 'bookmark'));
+    addToast("Bookmark added", "success");
+  };
+
+  const jumpToMarker = (marker?: Marker) => {
+    if (!marker) return;
+    handleSeek(marker.time);
+    addToast(marker.label, "info");
+  };
+
+  const handleChapterFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const chapters = parseVttChapters(await file.text());
+      if (chapters.length === 0) throw new Error('No chapters found');
+      if (onImportChapters) onImportChapters(chapters);
+      addToast(`Imported ${chapters.length} chapters`, "success");
+    } catch (err) {
+      console.error("Failed to parse chapters", err);
+      addToast("Could not read chapter file", "error");
+    }
+  };
+
   // Gestures & Interactions
   const handleTouchStart = (e: React.TouchEvent | React.MouseEvent) => {
     if (state.isLocked) return;
@@ -384,10 +952,8 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
             setState(s => ({ ...s, brightness: newVal }));
             setGesture({ active: true, type: GestureAction.BRIGHTNESS, value: newVal, delta: 0, text: `${Math.round(newVal * 100)}%` });
         } else if (currentGesture === GestureAction.VOLUME) {
-            if (!gesture) initialValueRef.current = state.volume;
-            const newVal = Math.max(0, Math.min(1, initialValueRef.current + (deltaY / height) * sensitivity.volume));
-            if (videoRef.current) videoRef.current.volume = newVal;
-            setState(s => ({ ...s, volume: newVal }));
+            if (!gesture) initialValueRef.current = volumeLevel;
+            const newVal = changeVolumeLevel(initialValueRef.current + (deltaY / height) * sensitivity.volume);
             setGesture({ active: true, type: GestureAction.VOLUME, value: newVal, delta: 0, text: `${Math.round(newVal * 100)}%` });
         } else if (currentGesture === GestureAction.SEEK) {
             if (!gesture) initialValueRef.current = state.currentTime;
@@ -443,27 +1009,39 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
   return (
     <div 
       ref={containerRef}
-      className="fixed inset-0 z-50 bg-black overflow-hidden group select-none touch-none focus:outline-none"
-      onMouseDown={handleTouchStart}
-      onMouseMove={handleTouchMove}
-      onMouseUp={handleTouchEnd}
-      onMouseLeave={handleTouchEnd}
-      onTouchStart={handleTouchStart}
-      onTouchMove={handleTouchMove}
-      onTouchEnd={handleTouchEnd}
+      className={clsx(
+        "overflow-hidden group select-none focus:outline-none",
+        minimized
+          ? "fixed z-40 left-2 right-2 bottom-[4.5rem] md:left-auto md:right-4 md:bottom-4 md:w-96 h-16 rounded-xl bg-[#1E1E1E] border border-white/10 shadow-2xl"
+          : "fixed inset-0 z-50 bg-black touch-none"
+      )}
+      onMouseDown={minimized ? undefined : handleTouchStart}
+      onMouseMove={minimized ? undefined : handleTouchMove}
+      onMouseUp={minimized ? undefined : handleTouchEnd}
+      onMouseLeave={minimized ? undefined : handleTouchEnd}
+      onTouchStart={minimized ? undefined : handleTouchStart}
+      onTouchMove={minimized ? undefined : handleTouchMove}
+      onTouchEnd={minimized ? undefined : handleTouchEnd}
       tabIndex={0} // Make focusable for keyboard events
     >
-      <input type="file" accept=".srt,.vtt" ref={subtitleInputRef} className="hidden" />
+      <input type="file" accept=".srt,.vtt" ref={subtitleInputRef} className="hidden" onChange={handleSubtitleFile} />
+      <input type="file" accept=".vtt" ref={chapterInputRef} className="hidden" onChange={handleChapterFile} />
 
-      <div className="w-full h-full relative overflow-hidden flex items-center justify-center">
+      {/* Stays mounted in the same place when docking so playback isn't interrupted */}
+      <div className={clsx(
+          "overflow-hidden flex items-center justify-center",
+          minimized ? "absolute left-2 top-2 w-12 h-12 rounded-lg bg-black" : "w-full h-full relative",
+          isAudio && "hidden"
+      )}>
          <video
+           key={media.key}
            ref={videoRef}
-           src={video.url}
+           src={isAdaptive ? undefined : video.url}
            className={clsx(
                "transition-all duration-300",
-               state.videoFit === 'contain' ? 'max-w-full max-h-full' : 'w-full h-full',
-               state.videoFit === 'cover' && "object-cover",
-               state.videoFit === 'fill' && "object-fill",
+               minimized ? 'w-full h-full object-cover' : state.videoFit === 'contain' ? 'max-w-full max-h-full' : 'w-full h-full',
+               !minimized && state.videoFit === 'cover' && "object-cover",
+               !minimized && state.videoFit === 'fill' && "object-fill",
            )}
            onTimeUpdate={handleTimeUpdate}
            onLoadedMetadata={handleLoadedMetadata}
@@ -473,140 +1051,306 @@ export const VideoPlayer: React.FC<VideoPlayerProps> = ({
            onEnded={handleEnded}
            onError={handleError}
            style={{ 
-             filter: `brightness(${state.brightness})`,
-             transform: `scale(${state.scale}) rotate(${rotation}deg)` 
+             filter: cssFilter(adjustments, state.brightness, ADJUSTMENTS_FILTER_ID),
+             transform: `scale(${state.scale}) rotate(${rotation}deg) ${mirrorTransform(adjustments)}`,
+             clipPath: cropClipPath(adjustments)
            }}
          />
+         {needsSvgFilter(adjustments) && (
+           <svg className="absolute w-0 h-0" aria-hidden="true">
+             <filter id={ADJUSTMENTS_FILTER_ID} colorInterpolationFilters="sRGB">
+               <feComponentTransfer>
+                 <feFuncR type="gamma" exponent={adjustments.gamma} />
+                 <feFuncG type="gamma" exponent={adjustments.gamma} />
+                 <feFuncB type="gamma" exponent={adjustments.gamma} />
+               </feComponentTransfer>
+               {adjustments.sharpen > 0 && <feConvolveMatrix order="3" kernelMatrix={sharpenKernel(adjustments.sharpen)} preserveAlpha="true" />}
+             </filter>
+           </svg>
+         )}
       </div>
 
-      {/* Error Overlay */}
-      {state.error && (
-        <div className="absolute inset-0 z-40 flex flex-col items-center justify-center bg-black/80">
-            <Icons.Video className="w-16 h-16 text-white/20 mb-4" />
-            <p className="text-red-400 font-bold mb-4">{state.error}</p>
-            <button 
-                onClick={() => {
-                    if (videoRef.current) {
-                        videoRef.current.load();
-                        videoRef.current.play();
-                    }
-                    setState(s => ({...s, error: null}));
-                }} 
-                className="px-6 py-2 bg-white/10 hover:bg-white/20 rounded-full text-white font-medium transition"
+      {minimized ? (
+        <MiniPlayer
+          title={audioInfo?.data.title || video.name}
+          subtitle={audioInfo?.data.artist || video.sheetName}
+          coverUrl={coverUrl}
+          showCover={isAudio}
+          playing={state.playing}
+          progress={state.duration > 0 ? state.currentTime / state.duration : 0}
+          onPlayPause={togglePlay}
+          onNext={onNext}
+          onExpand={() => onExpand?.()}
+          onClose={onClose}
+        />
+      ) : (
+        <>
+          {isAudio && (
+            <AudioView
+              video={video}
+              tags={audioInfo?.data}
+              coverUrl={coverUrl}
+              peaks={audioInfo?.data.peaks}
+              currentTime={state.currentTime}
+              duration={state.duration}
+              onSeek={handleSeek}
+            />
+          )}
+
+          {subtitlesEnabled && activeTrack && (
+            <SubtitleOverlay 
+              cues={activeTrack.cues} 
+              currentTime={state.currentTime} 
+              delay={subtitleDelay} 
+              subtitleStyle={subtitleStyle} 
+              controlsVisible={state.showControls} 
+            />
+          )}
+
+          {/* Error Overlay */}
+          {state.error && (
+            <div className="absolute inset-0 z-40 flex flex-col items-center justify-center bg-black/80">
+                <Icons.Video className="w-16 h-16 text-white/20 mb-4" />
+                <p className="text-red-400 font-bold mb-4">{state.error}</p>
+                <button 
+                    onClick={() => {
+                        if (isAdaptive) {
+                            setStreamAttempt(a => a + 1);
+                        } else if (videoRef.current) {
+                            videoRef.current.load();
+                            videoRef.current.play();
+                        }
+                        setState(s => ({...s, error: null}));
+                    }} 
+                    className="px-6 py-2 bg-white/10 hover:bg-white/20 rounded-full text-white font-medium transition"
+                >
+                    Retry
+                </button>
+            </div>
+          )}
+
+          {/* Resume Prompt */}
+          {resumePrompt !== null && !state.error && (
+            <div 
+              className="absolute inset-0 z-[45] flex items-center justify-center bg-black/60 backdrop-blur-sm animate-fade-in"
+              onMouseDown={e => e.stopPropagation()} onMouseUp={e => e.stopPropagation()} onTouchStart={e => e.stopPropagation()} onTouchEnd={e => e.stopPropagation()}
             >
-                Retry
-            </button>
-        </div>
-      )}
+                <div className="bg-[#1E1E1E] border border-white/10 rounded-2xl p-6 shadow-2xl flex flex-col items-center gap-4 max-w-xs w-full mx-4">
+                    <Icons.History className="w-8 h-8 text-primary" />
+                    <p className="text-white font-medium text-center">Continue where you left off?</p>
+                    <div className="flex flex-col gap-2 w-full">
+                        <button onClick={() => answerResumePrompt(true)} className="w-full py-2.5 rounded-lg bg-primary text-black font-bold flex items-center justify-center gap-2">
+                            <Icons.Play className="w-4 h-4 fill-current" /> Resume from {formatTime(resumePrompt)}
+                        </button>
+                        <button onClick={() => answerResumePrompt(false)} className="w-full py-2.5 rounded-lg bg-white/5 text-white/80 hover:bg-white/10 flex items-center justify-center gap-2">
+                            <Icons.Rotate className="w-4 h-4" /> Start over
+                        </button>
+                    </div>
+                </div>
+            </div>
+          )}
+
+          {showGoTo && (
+            <GoToTimeDialog
+              currentTime={state.currentTime}
+              duration={state.duration}
+              onGo={(time) => { handleSeek(time); setShowGoTo(false); }}
+              onClose={() => setShowGoTo(false)}
+            />
+          )}
 
-      {/* Speed 2x Overlay */}
-      {isLongPressing && (
-          <div className="absolute top-10 inset-x-0 flex justify-center pointer-events-none animate-fade-in z-40">
-              <div className="bg-black/60 backdrop-blur-md px-4 py-2 rounded-full flex items-center gap-2 text-white font-bold">
-                  <Icons.Forward10 className="w-5 h-5" />
-                  <span>2x Speed</span>
+          {showShortcuts && <ShortcutsOverlay bindings={shortcuts} scope="player" onClose={() => setShowShortcuts(false)} />}
+
+          {/* Speed 2x Overlay */}
+          {isLongPressing && (
+              <div className="absolute top-10 inset-x-0 flex justify-center pointer-events-none animate-fade-in z-40">
+                  <div className="bg-black/60 backdrop-blur-md px-4 py-2 rounded-full flex items-center gap-2 text-white font-bold">
+                      <Icons.Forward10 className="w-5 h-5" />
+                      <span>2x Speed</span>
+                  </div>
               </div>
-          </div>
-      )}
+          )}
 
-      {/* Double Tap Animations */}
-      {doubleTapAnimation === 'left' && (
-        <div className="absolute left-[15%] top-1/2 -translate-y-1/2 flex items-center justify-center pointer-events-none animate-fade-out z-40">
-           <div className="bg-black/40 backdrop-blur-sm rounded-full p-4 flex flex-col items-center">
-              <Icons.Replay10 className="w-8 h-8 text-white" />
-              <span className="text-white text-xs font-bold mt-1">-{seekTime}s</span>
-           </div>
-        </div>
-      )}
-      {doubleTapAnimation === 'right' && (
-        <div className="absolute right-[15%] top-1/2 -translate-y-1/2 flex items-center justify-center pointer-events-none animate-fade-out z-40">
-           <div className="bg-black/40 backdrop-blur-sm rounded-full p-4 flex flex-col items-center">
-              <Icons.Forward10 className="w-8 h-8 text-white" />
-              <span className="text-white text-xs font-bold mt-1">+{seekTime}s</span>
-           </div>
-        </div>
-      )}
+          {/* Double Tap Animations */}
+          {doubleTapAnimation === 'left' && (
+            <div className="absolute left-[15%] top-1/2 -translate-y-1/2 flex items-center justify-center pointer-events-none animate-fade-out z-40">
+               <div className="bg-black/40 backdrop-blur-sm rounded-full p-4 flex flex-col items-center">
+                  <Icons.Replay10 className="w-8 h-8 text-white" />
+                  <span className="text-white text-xs font-bold mt-1">-{seekTime}s</span>
+               </div>
+            </div>
+          )}
+          {doubleTapAnimation === 'right' && (
+            <div className="absolute right-[15%] top-1/2 -translate-y-1/2 flex items-center justify-center pointer-events-none animate-fade-out z-40">
+               <div className="bg-black/40 backdrop-blur-sm rounded-full p-4 flex flex-col items-center">
+                  <Icons.Forward10 className="w-8 h-8 text-white" />
+                  <span className="text-white text-xs font-bold mt-1">+{seekTime}s</span>
+               </div>
+            </div>
+          )}
 
-      {/* Gesture Feedback */}
-      {gesture && gesture.active && (
-         <div className="absolute inset-0 z-40 flex items-center justify-center pointer-events-none">
-            <div className="bg-black/60 backdrop-blur-md text-white px-8 py-6 rounded-2xl flex flex-col items-center gap-3 animate-fade-in border border-white/10 shadow-2xl">
-                {gesture.type === GestureAction.VOLUME && <Icons.Volume className="w-10 h-10 text-primary" />}
-                {gesture.type === GestureAction.BRIGHTNESS && <Icons.Brightness className="w-10 h-10 text-yellow-400" />}
-                {gesture.type === GestureAction.ZOOM && <Icons.Maximize className="w-10 h-10 text-blue-400" />}
-                {gesture.type === GestureAction.SEEK && (gesture.delta > 0 ? <Icons.Forward10 className="w-10 h-10" /> : <Icons.Replay10 className="w-10 h-10" />)}
-                <span className="text-2xl font-bold font-mono tracking-wider">
-                    {gesture.type === GestureAction.SEEK ? formatTime(gesture.value) : gesture.text}
-                </span>
+          {/* Gesture Feedback */}
+          {gesture && gesture.active && (
+             <div className="absolute inset-0 z-40 flex items-center justify-center pointer-events-none">
+                <div className="bg-black/60 backdrop-blur-md text-white px-8 py-6 rounded-2xl flex flex-col items-center gap-3 animate-fade-in border border-white/10 shadow-2xl">
+                    {gesture.type === GestureAction.VOLUME && <Icons.Volume className="w-10 h-10 text-primary" />}
+                    {gesture.type === GestureAction.BRIGHTNESS && <Icons.Brightness className="w-10 h-10 text-yellow-400" />}
+                    {gesture.type === GestureAction.ZOOM && <Icons.Maximize className="w-10 h-10 text-blue-400" />}
+                    {gesture.type === GestureAction.SEEK && (gesture.delta > 0 ? <Icons.Forward10 className="w-10 h-10" /> : <Icons.Replay10 className="w-10 h-10" />)}
+                    <span className="text-2xl font-bold font-mono tracking-wider">
+                        {gesture.type === GestureAction.SEEK ? formatTime(gesture.value) : gesture.text}
+                    </span>
+                </div>
+             </div>
+          )}
+
+          {state.isBuffering && !gesture && !state.playing && !state.error && (
+            <div className="absolute inset-0 z-30 flex items-center justify-center pointer-events-none">
+              <div className="w-16 h-16 border-4 border-primary/30 border-t-primary rounded-full animate-spin" />
             </div>
-         </div>
-      )}
+          )}
 
-      {state.isBuffering && !gesture && !state.playing && !state.error && (
-        <div className="absolute inset-0 z-30 flex items-center justify-center pointer-events-none">
-          <div className="w-16 h-16 border-4 border-primary/30 border-t-primary rounded-full animate-spin" />
-        </div>
-      )}
+          <div className={clsx(
+            "absolute inset-0 transition-opacity duration-300",
+            state.showControls ? "opacity-100" : "opacity-0"
+          )}>
+            <PlayerControls 
+              state={state}
+              title={video.name}
+              videoUrl={video.url}
+              storyboard={storyboard?.data}
+              storyboardUrl={storyboard?.url}
+              markers={allMarkers}
+              loopStart={loopStart}
+              loopRange={loopRange}
+              onCycleLoop={cycleLoop}
+              onSetLoopPoint={setLoopPoint}
+              onClearLoop={clearLoop}
+              onLoopOptionsChange={(options) => { if (loopRange) applyLoopRange({ ...loopRange, ...options }); }}
+              sensitivity={sensitivity}
+              showSettings={showSettings}
+              onPlayPause={togglePlay}
+              onSeek={handleSeek}
+              onScrub={handleScrub}
+              onToggleLock={() => {
+                  const locked = !state.isLocked;
+                  setState(s => ({ ...s, isLocked: locked, showControls: !locked }));
+                  addToast(locked ? "Screen Locked" : "Screen Unlocked", "info");
+              }}
+              onTogglePip={async () => {
+                 if (document.pictureInPictureElement) await document.exitPictureInPicture();
+                 else await videoRef.current?.requestPictureInPicture();
+              }}
+              onBack={isAudio && onMinimize ? onMinimize : onClose}
+              isAudio={isAudio}
+              onChangeSpeed={changeSpeed}
+              onChangeQuality={changeQuality}
+              onToggleFit={() => {
+                  const fits: any[] = ['contain', 'cover', 'fill'];
+                  setState(s => ({ ...s, videoFit: fits[(fits.indexOf(s.videoFit) + 1) % fits.length], scale: 1 }));
+              }}
+              onToggleLoop={() => {
+                  const looping = !state.isLooping;
+                  setState(s => ({ ...s, isLooping: looping }));
+                  addToast(looping ? "Looping Enabled" : "Looping Disabled", "info");
+              }}
+              onScreenshot={() => { 
+                  if (videoRef.current) {
+                      const canvas = document.createElement('canvas');
+                      canvas.width = videoRef.current.videoWidth;
+                      canvas.height = videoRef.current.videoHeight;
+                      const ctx = canvas.getContext('2d');
+                      if (ctx) {
+                          // Keeps the picture corrections, apart from the SVG-only gamma and sharpening
+                          ctx.filter = cssFilter(adjustments, state.brightness);
+                          ctx.translate(adjustments.mirrorX ? canvas.width : 0, adjustments.mirrorY ? canvas.height : 0);
+                          ctx.scale(adjustments.mirrorX ? -1 : 1, adjustments.mirrorY ? -1 : 1);
+                          ctx.drawImage(videoRef.current, 0, 0);
+                      }
+                      const link = document.createElement('a');
+                      link.download = `screenshot-${Date.now()}.png`;
+                      link.href = canvas.toDataURL();
+                      link.click();
+                      addToast("Screenshot saved", "success");
+                  }
+              }}
+              subtitlesEnabled={subtitlesEnabled}
+              hasSubtitles={subtitleTracks.length > 0}
+              subtitleTracks={subtitleTracks}
+              activeSubtitleTrackId={activeTrack?.id}
+              subtitleDelay={subtitleDelay}
+              subtitleStyle={subtitleStyle}
+              audioEffects={audioEffects}
+              audioEffectsAvailable={audioProcessing}
+              qualities={qualities}
+              selectedQuality={selectedQuality}
+              activeQuality={activeQuality}
+              onLoadSubtitle={() => subtitleInputRef.current?.click()}
+              onToggleSubtitles={toggleSubtitles}
+              onSelectSubtitleTrack={selectSubtitleTrack}
+              onSubtitleDelayChange={changeSubtitleDelay}
+              onSubtitleStyleChange={changeSubtitleStyle}
+              onAudioEffectsChange={changeAudioEffects}
+              onToggleSettings={() => { setShowSettings(p => !p); setShowQueue(false); setShowAdjustments(false); resetControlsTimer(); }}
+              onToggleMarkers={() => { setShowMarkers(p => !p); setShowQueue(false); setShowSettings(false); setShowAdjustments(false); resetControlsTimer(); }}
+              onToggleQueue={() => { setShowQueue(p => !p); setShowMarkers(false); setShowSettings(false); setShowAdjustments(false); resetControlsTimer(); }}
+              onToggleAdjustments={() => { setShowAdjustments(p => !p); setShowMarkers(false); setShowQueue(false); setShowSettings(false); resetControlsTimer(); }}
+              adjusted={isAdjusted(adjustments)}
+              timeDisplay={timeDisplay}
+              frameRate={frameRate}
+              frameRateKnown={frameRateKnown}
+              onCycleTimeDisplay={cycleTimeDisplay}
+              onStepFrame={stepFrames}
+              onGoToTime={() => setShowGoTo(true)}
+              onSensitivityChange={(k, v) => setSensitivity(p => ({ ...p, [k]: v }))}
+              onNext={onNext}
+              onPrev={onPrev}
+              onResetZoom={() => setState(s => ({ ...s, scale: 1 }))}
+              onRotate={() => { setRotation(r => (r + 90) % 360); setState(s => ({...s, scale: 1})); }}
+              onSetSleepTimer={(m) => {
+                  setState(s => ({ ...s, sleepTimer: m }));
+                  addToast(m ? `Sleep timer set: ${m}m` : "Sleep timer off", "info");
+              }}
+            />
+          </div>
 
-      <div className={clsx(
-        "absolute inset-0 transition-opacity duration-300",
-        state.showControls ? "opacity-100" : "opacity-0"
-      )}>
-        <PlayerControls 
-          state={state}
-          title={video.name}
-          videoUrl={video.url}
-          sensitivity={sensitivity}
-          showSettings={showSettings}
-          onPlayPause={togglePlay}
-          onSeek={handleSeek}
-          onScrub={handleScrub}
-          onToggleLock={() => {
-              const locked = !state.isLocked;
-              setState(s => ({ ...s, isLocked: locked, showControls: !locked }));
-              addToast(locked ? "Screen Locked" : "Screen Unlocked", "info");
-          }}
-          onTogglePip={async () => {
-             if (document.pictureInPictureElement) await document.exitPictureInPicture();
-             else await videoRef.current?.requestPictureInPicture();
-          }}
-          onBack={onClose}
-          onChangeSpeed={changeSpeed}
-          onToggleFit={() => {
-              const fits: any[] = ['contain', 'cover', 'fill'];
-              setState(s => ({ ...s, videoFit: fits[(fits.indexOf(s.videoFit) + 1) % fits.length], scale: 1 }));
-          }}
-          onToggleLoop={() => {
-              const looping = !state.isLooping;
-              setState(s => ({ ...s, isLooping: looping }));
-              addToast(looping ? "Looping Enabled" : "Looping Disabled", "info");
-          }}
-          onScreenshot={() => { 
-              if (videoRef.current) {
-                  const canvas = document.createElement('canvas');
-                  canvas.width = videoRef.current.videoWidth;
-                  canvas.height = videoRef.current.videoHeight;
-                  canvas.getContext('2d')?.drawImage(videoRef.current, 0, 0);
-                  const link = document.createElement('a');
-                  link.download = `screenshot-${Date.now()}.png`;
-                  link.href = canvas.toDataURL();
-                  link.click();
-                  addToast("Screenshot saved", "success");
-              }
-          }}
-          onLoadSubtitle={() => subtitleInputRef.current?.click()}
-          onToggleSettings={() => { setShowSettings(p => !p); resetControlsTimer(); }}
-          onSensitivityChange={(k, v) => setSensitivity(p => ({ ...p, [k]: v }))}
-          onNext={onNext}
-          onPrev={onPrev}
-          onResetZoom={() => setState(s => ({ ...s, scale: 1 }))}
-          onRotate={() => { setRotation(r => (r + 90) % 360); setState(s => ({...s, scale: 1})); }}
-          onSetSleepTimer={(m) => {
-              setState(s => ({ ...s, sleepTimer: m }));
-              addToast(m ? `Sleep timer set: ${m}m` : "Sleep timer off", "info");
-          }}
-        />
-      </div>
+          {showMarkers && (
+            <MarkersPanel
+              markers={allMarkers}
+              currentTime={state.currentTime}
+              canRemove={m => !video.chapters?.includes(m)}
+              onJump={jumpToMarker}
+              onRemove={id => onRemoveMarker?.(id)}
+              onAddBookmark={addBookmark}
+              onImportChapters={() => chapterInputRef.current?.click()}
+              onClose={() => setShowMarkers(false)}
+            />
+          )}
+
+          {showAdjustments && (
+            <AdjustmentsPanel
+              adjustments={adjustments}
+              onChange={changeAdjustments}
+              onClose={() => setShowAdjustments(false)}
+            />
+          )}
+
+          {showQueue && (
+            <QueuePanel 
+              queue={queue}
+              currentId={video.id}
+              shuffle={shuffle}
+              repeatAll={repeatAll}
+              onSelect={onSelectFromQueue}
+              onReorder={onReorderQueue}
+              onRemove={onRemoveFromQueue}
+              onToggleShuffle={onToggleShuffle}
+              onToggleRepeat={onToggleRepeat}
+              onClose={() => setShowQueue(false)}
+            />
+          )}
+        </>
+      )}
     </div>
   );
 };
\ No newline at end of file
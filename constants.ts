@@ -1,11 +1,191 @@
+import { SubtitleStyle, GlobalSettings, SheetField, AudioEffects, VideoAdjustments, TimeDisplay, ShortcutDefinition } from './types';
+
 export const SUPPORTED_MIME_TYPES = [
   'video/mp4',
   'video/webm',
   'video/ogg',
   'video/x-matroska', // Browser support varies
-  'video/quicktime'
+  'video/quicktime',
+  'audio/mpeg',
+  'audio/mp4',
+  'audio/ogg',
+  'audio/wav',
+  'audio/webm',
+  'audio/flac',
+  'audio/aac'
+];
+
+// Fallback when the browser reports an empty MIME type (common for .mkv)
+export const MEDIA_EXTENSION_TYPES: Record<string, string> = {
+  mp4: 'video/mp4',
+  m4v: 'video/mp4',
+  webm: 'video/webm',
+  ogv: 'video/ogg',
+  mkv: 'video/x-matroska',
+  mov: 'video/quicktime',
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  ogg: 'audio/ogg',
+  oga: 'audio/ogg',
+  opus: 'audio/ogg',
+  wav: 'audio/wav',
+  flac: 'audio/flac',
+  aac: 'audio/aac'
+};
+
+export const HLS_MIME_TYPE = 'application/x-mpegURL';
+export const DASH_MIME_TYPE = 'application/dash+xml';
+export const HLS_CONTENT_TYPES = ['application/vnd.apple.mpegurl', 'application/x-mpegurl', 'audio/mpegurl', 'audio/x-mpegurl'];
+export const AUTO_QUALITY = -1; // Let the adaptive player pick renditions
+
+export const DEFAULT_SETTINGS: GlobalSettings = {
+  themeColor: '#BB86FC',
+  seekTime: 10,
+  defaultSpeed: 1.0,
+  autoPlayNext: true,
+  performanceMode: false,
+  enableOnlineDB: true,
+  googleSheetUrls: [],
+  savedStreams: [],
+  viewMode: 'grid',
+  resumeBehavior: 'ask',
+  sheetColumnMappings: {},
+  sheetAllTabs: [],
+  googleApiKey: '',
+  remoteSources: [],
+  sourceCacheTtl: 60,
+  timeDisplay: 'seconds',
+  shortcuts: {}
+};
+
+export const SHORTCUTS: ShortcutDefinition[] = [
+  { action: 'showShortcuts', label: 'Keyboard shortcuts', scope: 'global', keys: ['Char:?'] },
+  { action: 'playPause', label: 'Play / pause', scope: 'player', keys: ['Space', 'KeyK'] },
+  { action: 'seekBackward', label: 'Seek back', scope: 'player', keys: ['ArrowLeft', 'KeyJ'] },
+  { action: 'seekForward', label: 'Seek forward', scope: 'player', keys: ['ArrowRight', 'KeyL'] },
+  { action: 'prevFrame', label: 'Previous frame', scope: 'player', keys: ['Char:,'] },
+  { action: 'nextFrame', label: 'Next frame', scope: 'player', keys: ['Char:.'] },
+  { action: 'goToTime', label: 'Go to time', scope: 'player', keys: ['KeyT'] },
+  { action: 'cycleTimeDisplay', label: 'Time format', scope: 'player', keys: ['KeyD'] },
+  { action: 'speedDown', label: 'Slower', scope: 'player', keys: ['Char:<'] },
+  { action: 'speedUp', label: 'Faster', scope: 'player', keys: ['Char:>'] },
+  { action: 'volumeUp', label: 'Volume up', scope: 'player', keys: ['ArrowUp'] },
+  { action: 'volumeDown', label: 'Volume down', scope: 'player', keys: ['ArrowDown'] },
+  { action: 'mute', label: 'Mute', scope: 'player', keys: ['KeyM'] },
+  { action: 'fullscreen', label: 'Fullscreen', scope: 'player', keys: ['KeyF'] },
+  { action: 'prevVideo', label: 'Previous video', scope: 'player', keys: ['Shift+KeyP'] },
+  { action: 'nextVideo', label: 'Next video', scope: 'player', keys: ['Shift+KeyN'] },
+  { action: 'toggleSubtitles', label: 'Subtitles', scope: 'player', keys: ['KeyC'] },
+  { action: 'subtitleDelayDown', label: 'Subtitles earlier', scope: 'player', keys: ['KeyG'] },
+  { action: 'subtitleDelayUp', label: 'Subtitles later', scope: 'player', keys: ['KeyH'] },
+  { action: 'addBookmark', label: 'Add bookmark', scope: 'player', keys: ['KeyB'] },
+  { action: 'prevMarker', label: 'Previous chapter', scope: 'player', keys: ['Char:['] },
+  { action: 'nextMarker', label: 'Next chapter', scope: 'player', keys: ['Char:]'] },
+  { action: 'cycleLoop', label: 'A-B loop', scope: 'player', keys: ['KeyA'] },
+  { action: 'toggleQueue', label: 'Up next', scope: 'player', keys: ['KeyQ'] },
+  { action: 'toggleChapters', label: 'Chapters panel', scope: 'player', keys: ['KeyI'] },
+  { action: 'togglePicture', label: 'Picture panel', scope: 'player', keys: ['KeyV'] },
+  { action: 'focusSearch', label: 'Search', scope: 'library', keys: ['Char:/'] },
+  { action: 'showLibrary', label: 'Library', scope: 'library', keys: ['Digit1'] },
+  { action: 'showFavorites', label: 'Favorites', scope: 'library', keys: ['Digit2'] },
+  { action: 'showHistory', label: 'History', scope: 'library', keys: ['Digit3'] },
+  { action: 'showPlaylists', label: 'Playlists', scope: 'library', keys: ['Digit4'] },
+  { action: 'openSettings', label: 'Settings', scope: 'library', keys: ['Char:,'] },
+  { action: 'refreshSources', label: 'Refresh sources', scope: 'library', keys: ['KeyR'] }
 ];
 
+export const BACKUP_VERSION = 1;
+export const HISTORY_LIMIT = 50;
+
+export const SOURCE_CACHE_KEY = 'affi_source_cache_v2'; // v2: URL-derived video ids
+export const LEGACY_SOURCE_CACHE_KEYS = ['affi_sheet_cache', 'affi_source_cache'];
+export const SOURCE_CACHE_TTL_OPTIONS = [15, 60, 360, 1440]; // minutes
+
+// Header names recognised for each sheet field, compared case-insensitively
+export const SHEET_COLUMN_ALIASES: Record<SheetField, string[]> = {
+  name: ['name', 'title'],
+  url: ['url', 'link', 'video', 'video url', 'src', 'source'],
+  thumbnail: ['thumbnail', 'thumb', 'image', 'poster', 'cover'],
+  type: ['type', 'mime', 'mime type', 'mimetype', 'content type'],
+  duration: ['duration', 'length', 'runtime'],
+  tags: ['tags', 'tag', 'category', 'categories', 'genre'],
+  description: ['description', 'desc', 'summary', 'notes'],
+  subtitleUrl: ['subtitle', 'subtitles', 'subtitle url', 'captions', 'vtt', 'srt'],
+  chapters: ['chapters', 'chapter']
+};
+
+// Column order of sheets made before headers were read
+export const LEGACY_SHEET_COLUMNS: SheetField[] = ['name', 'url', 'thumbnail', 'chapters'];
+
 export const SEEK_STEP = 10; // seconds
 export const DOUBLE_TAP_DELAY = 300; // ms
 export const CONTROLS_HIDE_DELAY = 3000; // ms
+export const PROGRESS_SAVE_INTERVAL = 5; // seconds of playback between progress saves
+export const WATCHED_THRESHOLD = 0.9; // Fraction of the duration after which a video counts as watched
+export const MIN_RESUME_TIME = 5; // seconds, anything earlier just starts over
+
+export const DEFAULT_FRAME_RATE = 30; // Until the real rate has been measured
+export const COMMON_FRAME_RATES = [23.976, 24, 25, 29.97, 30, 48, 50, 59.94, 60];
+export const TIME_DISPLAYS: TimeDisplay[] = ['seconds', 'milliseconds', 'frames'];
+
+export const MIN_LOOP_LENGTH = 0.5; // seconds between A and B
+export const LOOP_REPEAT_OPTIONS = [0, 2, 3, 5, 10]; // 0 = until cleared
+export const LOOP_GAP_OPTIONS = [0, 1, 2, 3]; // seconds
+
+export const THUMBNAIL_WIDTH = 320;
+export const THUMBNAIL_HEIGHT = 180;
+export const STORYBOARD_FRAME_WIDTH = 160;
+export const STORYBOARD_FRAME_HEIGHT = 90;
+export const STORYBOARD_COLUMNS = 10;
+export const STORYBOARD_MAX_FRAMES = 100;
+export const STORYBOARD_MIN_INTERVAL = 2; // seconds, short clips get fewer frames
+export const WAVEFORM_BARS = 120;
+export const WAVEFORM_SAMPLE_RATE = 3000; // Hz, plenty for an amplitude envelope and keeps long files small once decoded
+export const WAVEFORM_MAX_BYTES = 100 * 1024 * 1024;
+
+export const SUBTITLE_DELAY_STEP = 0.1; // seconds
+export const MAX_SUBTITLE_DELAY = 10; // seconds either way
+export const SUBTITLE_COLORS = ['#FFFFFF', '#FFEB3B', '#00E5FF', '#76FF03', '#FF80AB'];
+export const DEFAULT_SUBTITLE_STYLE: SubtitleStyle = {
+  fontScale: 1,
+  color: '#FFFFFF',
+  backgroundOpacity: 0.6,
+  position: 6
+};
+
+export const DEFAULT_VIDEO_ADJUSTMENTS: VideoAdjustments = {
+  contrast: 1,
+  saturation: 1,
+  gamma: 1,
+  hue: 0,
+  grayscale: 0,
+  sepia: 0,
+  sharpen: 0,
+  mirrorX: false,
+  mirrorY: false,
+  crop: { top: 0, right: 0, bottom: 0, left: 0 }
+};
+export const MAX_CROP = 40; // percent per edge
+
+export const MAX_VOLUME_BOOST = 3; // 300%
+export const VOLUME_STEP = 0.1;
+export const SPEED_STEP = 0.25;
+export const MIN_SPEED = 0.25;
+export const MAX_SPEED = 4;
+export const EQ_BANDS = [60, 250, 1000, 4000, 12000]; // Hz, the outer two are shelves
+export const EQ_MAX_GAIN = 12; // dB either way
+export const EQ_PRESETS: Record<string, number[]> = {
+  Flat: [0, 0, 0, 0, 0],
+  'Bass Boost': [6, 4, 0, 0, 0],
+  Voice: [-4, -1, 3, 4, 1],
+  Treble: [0, 0, 0, 3, 6],
+  Loudness: [5, 2, 0, 2, 4]
+};
+export const DEFAULT_AUDIO_EFFECTS: AudioEffects = {
+  boost: 1,
+  normalize: false,
+  eqPreset: 'Flat',
+  eqGains: EQ_PRESETS.Flat,
+  mono: false,
+  balance: 0
+};
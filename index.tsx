@@ -1,6 +1,17 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import '@fontsource/inter/300.css';
+import '@fontsource/inter/400.css';
+import '@fontsource/inter/500.css';
+import '@fontsource/inter/600.css';
+import '@fontsource/inter/700.css';
+import '@fontsource/hind-siliguri/300.css';
+import '@fontsource/hind-siliguri/400.css';
+import '@fontsource/hind-siliguri/500.css';
+import '@fontsource/hind-siliguri/600.css';
+import '@fontsource/hind-siliguri/700.css';
+import './index.css';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -0,0 +1,24 @@
+// Imported by the generated service worker. Share Target POSTs carry the shared files and text,
+// which only the service worker can read, so it parks them in a cache for the app to pick up.
+const SHARE_CACHE = 'affiplayer-share-target';
+
+self.addEventListener('fetch', event => {
+  const url = new URL(event.request.url);
+  if (event.request.method !== 'POST' || url.pathname !== '/share-target') return;
+
+  event.respondWith((async () => {
+    const data = await event.request.formData();
+    const cache = await caches.open(SHARE_CACHE);
+    const files = data.getAll('media').filter(f => f instanceof File);
+    await Promise.all(files.map((file, i) => cache.put(`/share-target/file/${i}`, new Response(file, {
+      headers: { 'Content-Type': file.type, 'X-File-Name': encodeURIComponent(file.name), 'X-Last-Modified': String(file.lastModified) }
+    }))));
+    await cache.put('/share-target/meta', new Response(JSON.stringify({
+      title: data.get('title') || '',
+      text: data.get('text') || '',
+      url: data.get('url') || '',
+      fileCount: files.length
+    }), { headers: { 'Content-Type': 'application/json' } }));
+    return Response.redirect('/?share-target', 303);
+  })());
+});
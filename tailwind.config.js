@@ -0,0 +1,35 @@
+/** @type {import('tailwindcss').Config} */
+export default {
+  content: ['./index.html', './*.{ts,tsx}', './components/**/*.{ts,tsx}', './utils/**/*.{ts,tsx}'],
+  darkMode: 'class',
+  theme: {
+    extend: {
+      fontFamily: {
+        sans: ['Inter', 'Hind Siliguri', 'sans-serif'],
+      },
+      colors: {
+        primary: '#BB86FC',
+        secondary: '#03DAC6',
+        background: '#121212',
+        surface: '#1E1E1E',
+        error: '#CF6679',
+      },
+      animation: {
+        'fade-in': 'fadeIn 0.2s ease-out',
+        'fade-out': 'fadeOut 0.2s ease-in',
+        'ping-once': 'ping 0.5s cubic-bezier(0, 0, 0.2, 1) 1',
+      },
+      keyframes: {
+        fadeIn: {
+          '0%': { opacity: '0' },
+          '100%': { opacity: '1' },
+        },
+        fadeOut: {
+          '0%': { opacity: '1' },
+          '100%': { opacity: '0' },
+        }
+      }
+    }
+  },
+  plugins: [],
+};
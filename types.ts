@@ -1,4 +1,7 @@
-export type VideoSourceType = 'local' | 'stream' | 'googlesheet';
+// Catalogs fetched from a URL and mapped into videos by a source provider
+export type RemoteSourceKind = 'googlesheet' | 'json' | 'm3u' | 'rss';
+
+export type VideoSourceType = 'local' | 'stream' | RemoteSourceKind;
 
 export interface VideoFile {
   id: string;
@@ -12,6 +15,36 @@ export interface VideoFile {
   thumbnail?: string;
   sourceType: VideoSourceType;
   sheetName?: string; 
+  relativePath?: string; // Path inside an imported folder, e.g. "Course/Week 1/intro.mp4"
+  subtitles?: SubtitleTrack[];
+  chapters?: Marker[]; // Supplied by the source, e.g. a sheet column
+  description?: string;
+  tags?: string[];
+  legacyIds?: string[]; // Ids from before content-derived ids, migrated away on load
+}
+
+export type MarkerKind = 'bookmark' | 'chapter';
+
+// A named point on the timeline, either dropped by the user or imported as a chapter
+export interface Marker {
+  id: string;
+  time: number; // seconds
+  label: string;
+  kind: MarkerKind;
+}
+
+export interface SubtitleCue {
+  start: number; // seconds
+  end: number; // seconds
+  text: string;
+}
+
+export interface SubtitleTrack {
+  id: string;
+  label: string;
+  language?: string;
+  cues: SubtitleCue[];
+  url?: string; // Remote tracks are fetched on first use, `cues` stays empty until then
 }
 
 export interface PlayerState {
@@ -32,13 +65,111 @@ export interface PlayerState {
   error: string | null;
 }
 
+export interface SubtitleStyle {
+  fontScale: number; // 1 = default size
+  color: string;
+  backgroundOpacity: number; // 0 - 1
+  position: number; // % from the bottom edge
+}
+
+export interface StreamQuality {
+  index: number; // Rendition index in the manifest
+  height?: number;
+  bitrate: number; // bits per second
+  label: string;
+  frameRate?: number; // When the manifest declares one
+}
+
+export interface WatchProgress {
+  position: number; // seconds
+  duration: number; // seconds, 0 if unknown
+  updatedAt: number; // last watched timestamp
+  completed: boolean;
+}
+
+// Sprite sheet of evenly spaced frames used for the seek preview
+export interface Storyboard {
+  id: string; // video id
+  sprite: Blob;
+  columns: number;
+  count: number;
+  interval: number; // seconds between frames
+  frameWidth: number;
+  frameHeight: number;
+}
+
+// Read from the file's own ID3 tag
+export interface AudioTags {
+  title?: string;
+  artist?: string;
+  album?: string;
+  cover?: Blob;
+}
+
+// Peak levels for the waveform view, decoded once per audio file
+export interface AudioAnalysis extends AudioTags {
+  id: string; // video id
+  peaks: number[]; // 0 - 1
+}
+
 export interface VideoPreferences {
   playbackRate: number;
   subtitlesEnabled: boolean;
+  subtitleTrackId?: string;
+  subtitleDelay?: number; // seconds, positive shows subtitles later
+  subtitleStyle?: SubtitleStyle;
+  loopRange?: LoopRange;
+  audioEffects?: AudioEffects;
+  videoAdjustments?: VideoAdjustments;
+}
+
+// Percent trimmed from each edge of the picture
+export interface CropInsets {
+  top: number;
+  right: number;
+  bottom: number;
+  left: number;
+}
+
+// Image corrections drawn over the video, the source file is untouched
+export interface VideoAdjustments {
+  contrast: number; // 1 = unchanged
+  saturation: number; // 1 = unchanged
+  gamma: number; // 1 = unchanged, below 1 lifts the shadows
+  hue: number; // degrees
+  grayscale: number; // 0 - 1
+  sepia: number; // 0 - 1
+  sharpen: number; // 0 - 1
+  mirrorX: boolean;
+  mirrorY: boolean;
+  crop: CropInsets;
+}
+
+// Web Audio processing on top of the element's own 0 - 1 volume
+export interface AudioEffects {
+  boost: number; // Gain multiplier, 1 - MAX_VOLUME_BOOST
+  normalize: boolean; // Compresses the dynamic range so quiet passages come up
+  eqPreset: string; // Key of EQ_PRESETS, or 'Custom'
+  eqGains: number[]; // dB, one per EQ_BANDS entry
+  mono: boolean;
+  balance: number; // -1 (left) to 1 (right)
+}
+
+// A-B repeat segment
+export interface LoopRange {
+  start: number; // seconds, point A
+  end: number; // seconds, point B
+  repeats: number; // total passes, 0 loops until cleared
+  gap: number; // seconds paused between passes
 }
 
 export type ViewMode = 'grid' | 'list';
 
+export type ResumeBehavior = 'ask' | 'resume' | 'restart';
+
+// How the player shows positions: whole seconds, with milliseconds, or as a frame number
+export type TimeDisplay = 'seconds' | 'milliseconds' | 'frames';
+
 export interface GlobalSettings {
   themeColor: string;
   seekTime: number; 
@@ -49,6 +180,64 @@ export interface GlobalSettings {
   googleSheetUrls: string[]; 
   savedStreams: VideoFile[]; 
   viewMode: ViewMode;
+  resumeBehavior: ResumeBehavior;
+  sheetColumnMappings: Record<string, SheetColumnMapping>; // Keyed by sheet URL
+  sheetAllTabs: string[]; // Sheet URLs that import every tab instead of only the linked one
+  googleApiKey: string; // Needed to list a spreadsheet's tabs and their titles
+  remoteSources: RemoteSource[]; // JSON, M3U and RSS catalogs, sheets stay in googleSheetUrls
+  sourceCacheTtl: number; // minutes before a cached source is refetched in the background
+  timeDisplay: TimeDisplay;
+  shortcuts: ShortcutBindings; // Only rebound actions, the rest keep their SHORTCUTS defaults
+}
+
+export type PlayerAction =
+  | 'playPause' | 'seekBackward' | 'seekForward' | 'prevFrame' | 'nextFrame' | 'goToTime' | 'cycleTimeDisplay'
+  | 'speedDown' | 'speedUp' | 'volumeUp' | 'volumeDown' | 'mute' | 'fullscreen' | 'prevVideo' | 'nextVideo'
+  | 'toggleSubtitles' | 'subtitleDelayDown' | 'subtitleDelayUp' | 'addBookmark' | 'prevMarker' | 'nextMarker'
+  | 'cycleLoop' | 'toggleQueue' | 'toggleChapters' | 'togglePicture';
+export type LibraryAction = 'focusSearch' | 'showLibrary' | 'showFavorites' | 'showHistory' | 'showPlaylists' | 'openSettings' | 'refreshSources';
+export type ShortcutAction = PlayerAction | LibraryAction | 'showShortcuts';
+
+// Global shortcuts work in both the player and the library
+export type ShortcutScope = 'player' | 'library' | 'global';
+
+export interface ShortcutDefinition {
+  action: ShortcutAction;
+  label: string;
+  scope: ShortcutScope;
+  keys: string[]; // Combos such as "Space" or "Shift+KeyN", built from KeyboardEvent.code
+}
+
+export type ShortcutBindings = Partial<Record<ShortcutAction, string[]>>;
+
+export type SheetField = 'name' | 'url' | 'thumbnail' | 'type' | 'duration' | 'tags' | 'description' | 'subtitleUrl' | 'chapters';
+
+// Header name to read each field from, overriding the automatic detection
+export type SheetColumnMapping = Partial<Record<SheetField, string>>;
+
+export interface SheetTab {
+  gid: string;
+  title: string;
+}
+
+// Entry a provider skipped, e.g. a sheet row without a URL
+export interface SourceIssue {
+  tab?: string;
+  row: number; // 1-based sheet row, playlist line or feed entry
+  reason: string;
+}
+
+export interface RemoteSource {
+  id: string;
+  url: string;
+  name?: string;
+  kind?: Exclude<RemoteSourceKind, 'googlesheet'>; // Detected from the response when omitted
+}
+
+export interface SourceResult {
+  videos: VideoFile[];
+  skipped: SourceIssue[];
+  version?: string; // ETag or content hash of what was fetched, unchanged means nothing to re-parse
 }
 
 export interface GestureSensitivity {
@@ -65,9 +254,16 @@ export enum GestureAction {
   ZOOM
 }
 
-export type SortOption = 'date' | 'name' | 'size' | 'source';
+export type SortOption = 'date' | 'name' | 'size' | 'source' | 'folder';
 
-export type NavTab = 'library' | 'favorites' | 'history';
+export type NavTab = 'library' | 'favorites' | 'history' | 'playlists';
+
+export interface Playlist {
+  id: string;
+  name: string;
+  videoIds: string[];
+  createdAt: number;
+}
 
 export interface ToastMessage {
   id: string;
@@ -75,7 +271,51 @@ export interface ToastMessage {
   message: string;
 }
 
-export interface CachedSheetData {
-  timestamp: number;
-  data: VideoFile[];
+export type DownloadStatus = 'downloading' | 'paused' | 'error' | 'done';
+
+export interface DownloadProgress {
+  id: string; // Video id
+  status: DownloadStatus;
+  received: number; // bytes
+  total: number; // bytes, 0 when the server doesn't say
+  error?: string;
+}
+
+// A remote video saved for playback without network, the blob itself stays in IndexedDB
+export interface OfflineMedia {
+  id: string;
+  name: string;
+  type: string;
+  size: number;
+  savedAt: number;
+}
+
+// Everything a backup carries; local files and downloads stay on the device
+export interface BackupData {
+  settings: GlobalSettings;
+  favorites: string[];
+  history: string[];
+  progress: Record<string, WatchProgress>;
+  prefs: Record<string, VideoPreferences>;
+  playlists: Playlist[];
+  bookmarks: Record<string, Marker[]>;
+}
+
+export interface BackupFile extends BackupData {
+  app: 'affiplayer';
+  version: number;
+  exportedAt: number;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+// Last fetch of one remote source, cached per URL
+export interface SourceCacheEntry {
+  signature: string; // Settings the data was fetched with, a mismatch discards the entry
+  fetchedAt: number; // Last successful fetch, 0 if it never succeeded
+  checkedAt: number; // Last attempt, successful or not
+  version?: string;
+  videos: VideoFile[];
+  skipped: SourceIssue[];
+  error?: string; // Last failure, cleared by the next successful fetch
 }
\ No newline at end of file
@@ -0,0 +1,96 @@
+import { AudioEffects } from '../types';
+import { DEFAULT_AUDIO_EFFECTS, EQ_BANDS } from '../constants';
+
+export interface AudioGraph {
+  apply: (effects: AudioEffects) => void;
+  resume: () => void;
+  close: () => void;
+}
+
+export const hasAudioEffects = (effects: AudioEffects): boolean =>
+  effects.boost !== 1 || effects.normalize || effects.mono || effects.balance !== 0 || effects.eqGains.some(g => g !== 0);
+
+const build = (media: HTMLMediaElement): AudioGraph => {
+  const context = new AudioContext();
+  const source = context.createMediaElementSource(media);
+
+  // Forcing one channel on this node downmixes stereo to mono
+  const mixer = context.createGain();
+  const filters = EQ_BANDS.map((frequency, i) => {
+    const filter = context.createBiquadFilter();
+    filter.type = i === 0 ? 'lowshelf' : i === EQ_BANDS.length - 1 ? 'highshelf' : 'peaking';
+    filter.frequency.value = frequency;
+    filter.Q.value = 1;
+    return filter;
+  });
+  const compressor = context.createDynamicsCompressor();
+  const makeup = context.createGain(); // Brings the compressed signal back up to full level
+  const panner = context.createStereoPanner();
+  const output = context.createGain();
+
+  const chain: AudioNode[] = [source, mixer, ...filters, compressor, makeup, panner, output, context.destination];
+  chain.slice(1).forEach((node, i) => chain[i].connect(node));
+
+  return {
+    apply: (effects) => {
+      mixer.channelCount = effects.mono ? 1 : 2;
+      mixer.channelCountMode = effects.mono ? 'explicit' : 'max';
+      filters.forEach((filter, i) => { filter.gain.value = effects.eqGains[i] || 0; });
+
+      // A ratio of 1 leaves the signal untouched
+      compressor.threshold.value = effects.normalize ? -45 : 0;
+      compressor.knee.value = effects.normalize ? 30 : 0;
+      compressor.ratio.value = effects.normalize ? 12 : 1;
+      compressor.attack.value = 0.003;
+      compressor.release.value = 0.25;
+      makeup.gain.value = effects.normalize ? 2 : 1;
+
+      panner.pan.value = effects.balance;
+      output.gain.value = effects.boost;
+    },
+    resume: () => {
+      if (context.state === 'suspended') context.resume().catch(e => console.warn("Could not resume audio", e));
+    },
+    close: () => {
+      context.close().catch(e => console.warn("Could not close audio", e));
+    }
+  };
+};
+
+const graphs = new WeakMap<HTMLMediaElement, AudioGraph>();
+
+// Web Audio outputs silence for cross-origin media fetched without CORS. MSE streams play from a blob URL
+// and were fetched with CORS by the stream library, and a crossorigin element fails to load rather than play tainted.
+export const canProcessAudio = (media: HTMLMediaElement): boolean => {
+  const src = media.currentSrc || media.src;
+  if (!src) return false;
+  if (src.startsWith('blob:') || src.startsWith('data:') || media.crossOrigin !== null) return true;
+  try {
+    return new URL(src, location.href).origin === location.origin;
+  } catch {
+    return false;
+  }
+};
+
+export const hasAudioGraph = (media: HTMLMediaElement): boolean => graphs.has(media);
+
+// For an element that's about to be dropped, its context would otherwise stay open
+export const releaseAudioGraph = (media: HTMLMediaElement) => {
+  graphs.get(media)?.close();
+  graphs.delete(media);
+};
+
+// An element can feed only one source node, and from then on its sound always goes through the graph,
+// so the graph is built only once an effect is used and only for media it can process
+export const getAudioGraph = (media: HTMLMediaElement, effects: AudioEffects = DEFAULT_AUDIO_EFFECTS): AudioGraph | null => {
+  const existing = graphs.get(media);
+  if (existing || !hasAudioEffects(effects) || !canProcessAudio(media)) return existing || null;
+  try {
+    const graph = build(media);
+    graphs.set(media, graph);
+    return graph;
+  } catch (e) {
+    console.warn("Web Audio is unavailable", e);
+    return null;
+  }
+};
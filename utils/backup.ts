@@ -0,0 +1,199 @@
+import { BackupData, BackupFile, GlobalSettings, Marker, Playlist, VideoPreferences, WatchProgress, VideoFile, RemoteSource, SheetColumnMapping, ShortcutBindings, LoopRange } from '../types';
+import { BACKUP_VERSION, DEFAULT_SETTINGS, HISTORY_LIMIT, TIME_DISPLAYS, DEFAULT_SUBTITLE_STYLE, DEFAULT_AUDIO_EFFECTS, DEFAULT_VIDEO_ADJUSTMENTS } from '../constants';
+import { migrateSavedStreams, mergeDuplicates } from './videoIds';
+
+type Json = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is Json => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const stringArray = (value: unknown): string[] => Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+
+const record = <T>(value: unknown): Record<string, T> => isRecord(value) ? value as Record<string, T> : {};
+
+// Keeps the entries that pass `check`, so one bad entry doesn't cost the rest
+const validRecord = <T>(value: unknown, check: (v: unknown) => T | null): Record<string, T> => {
+  const result: Record<string, T> = {};
+  Object.entries(record<unknown>(value)).forEach(([key, v]) => {
+    const valid = check(v);
+    if (valid !== null) result[key] = valid;
+  });
+  return result;
+};
+
+const validArray = <T>(value: unknown, check: (v: unknown) => T | null): T[] =>
+  Array.isArray(value) ? value.map(check).filter((v): v is T => v !== null) : [];
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+
+const oneOf = <T extends string>(value: unknown, options: readonly T[], fallback: T): T =>
+  options.includes(value as T) ? value as T : fallback;
+
+// Fields of `value` whose type matches the default's, nested objects checked field by field
+const matchShape = <T extends object>(defaults: T, value: unknown): T => {
+  const source = record<unknown>(value);
+  const result: Json = { ...(defaults as Json) };
+  Object.entries(defaults).forEach(([key, fallback]) => {
+    const v = source[key];
+    if (Array.isArray(fallback)) {
+      if (Array.isArray(v) && v.every(item => fallback.length === 0 || typeof item === typeof fallback[0])) result[key] = v;
+    } else if (isRecord(fallback)) {
+      result[key] = matchShape(fallback, v);
+    } else if (typeof v === typeof fallback) {
+      result[key] = v;
+    }
+  });
+  return result as T;
+};
+
+const validStream = (v: unknown): VideoFile | null => {
+  if (!isRecord(v) || typeof v.id !== 'string' || typeof v.url !== 'string' || typeof v.name !== 'string') return null;
+  return { ...v, type: typeof v.type === 'string' ? v.type : '', size: 0, lastModified: isNumber(v.lastModified) ? v.lastModified : 0, sourceType: 'stream' } as VideoFile;
+};
+
+const validRemoteSource = (v: unknown): RemoteSource | null => {
+  if (!isRecord(v) || typeof v.id !== 'string' || typeof v.url !== 'string') return null;
+  return {
+    id: v.id,
+    url: v.url,
+    ...(typeof v.name === 'string' ? { name: v.name } : {}),
+    ...(v.kind === 'json' || v.kind === 'm3u' || v.kind === 'rss' ? { kind: v.kind } : {})
+  };
+};
+
+const validProgress = (v: unknown): WatchProgress | null => {
+  if (isNumber(v)) return { position: v, duration: 0, updatedAt: 0, completed: false };
+  if (!isRecord(v) || !isNumber(v.position)) return null;
+  return { position: v.position, duration: isNumber(v.duration) ? v.duration : 0, updatedAt: isNumber(v.updatedAt) ? v.updatedAt : 0, completed: v.completed === true };
+};
+
+const validLoopRange = (v: unknown): LoopRange | null => {
+  if (!isRecord(v) || !isNumber(v.start) || !isNumber(v.end)) return null;
+  return { start: v.start, end: v.end, repeats: isNumber(v.repeats) ? v.repeats : 0, gap: isNumber(v.gap) ? v.gap : 0 };
+};
+
+// Saved prefs are partial patches and the player falls back to global defaults for missing fields, so those stay missing
+const validPrefs = (v: unknown): VideoPreferences | null => {
+  if (!isRecord(v)) return null;
+  const loopRange = validLoopRange(v.loopRange);
+  return {
+    ...(isNumber(v.playbackRate) && v.playbackRate > 0 ? { playbackRate: v.playbackRate } : {}),
+    ...(typeof v.subtitlesEnabled === 'boolean' ? { subtitlesEnabled: v.subtitlesEnabled } : {}),
+    ...(typeof v.subtitleTrackId === 'string' ? { subtitleTrackId: v.subtitleTrackId } : {}),
+    ...(isNumber(v.subtitleDelay) ? { subtitleDelay: v.subtitleDelay } : {}),
+    ...(isRecord(v.subtitleStyle) ? { subtitleStyle: matchShape(DEFAULT_SUBTITLE_STYLE, v.subtitleStyle) } : {}),
+    ...(loopRange ? { loopRange } : {}),
+    ...(isRecord(v.audioEffects) ? { audioEffects: matchShape(DEFAULT_AUDIO_EFFECTS, v.audioEffects) } : {}),
+    ...(isRecord(v.videoAdjustments) ? { videoAdjustments: matchShape(DEFAULT_VIDEO_ADJUSTMENTS, v.videoAdjustments) } : {})
+  } as VideoPreferences;
+};
+
+const validPlaylist = (v: unknown): Playlist | null => {
+  if (!isRecord(v) || typeof v.id !== 'string') return null;
+  return { id: v.id, name: typeof v.name === 'string' ? v.name : 'Playlist', videoIds: stringArray(v.videoIds), createdAt: isNumber(v.createdAt) ? v.createdAt : 0 };
+};
+
+const validMarker = (v: unknown): Marker | null => {
+  if (!isRecord(v) || typeof v.id !== 'string' || !isNumber(v.time)) return null;
+  return { id: v.id, time: v.time, label: typeof v.label === 'string' ? v.label : '', kind: v.kind === 'chapter' ? 'chapter' : 'bookmark' };
+};
+
+const union = (a: string[], b: string[]): string[] => Array.from(new Set([...a, ...b]));
+
+// The API key stays on this device, backup files get shared and synced
+export const createBackup = (data: BackupData): BackupFile => ({
+  app: 'affiplayer',
+  version: BACKUP_VERSION,
+  exportedAt: Date.now(),
+  ...data,
+  settings: { ...data.settings, googleApiKey: '' }
+});
+
+export const backupFileName = (): string => `affiplayer-backup-${new Date().toISOString().slice(0, 10)}.json`;
+
+// Settings from older builds lack newer fields and may hold timestamp-id streams; fields of the wrong type fall back to defaults
+const migrateSettings = (raw: unknown): GlobalSettings => {
+  const saved = record<unknown>(raw);
+  const settings = matchShape(DEFAULT_SETTINGS, saved);
+  return {
+    ...settings,
+    viewMode: oneOf(settings.viewMode, ['grid', 'list'], DEFAULT_SETTINGS.viewMode),
+    resumeBehavior: oneOf(settings.resumeBehavior, ['ask', 'resume', 'restart'], DEFAULT_SETTINGS.resumeBehavior),
+    timeDisplay: oneOf(settings.timeDisplay, TIME_DISPLAYS, DEFAULT_SETTINGS.timeDisplay),
+    googleSheetUrls: stringArray(saved.googleSheetUrls),
+    sheetAllTabs: stringArray(saved.sheetAllTabs),
+    sheetColumnMappings: validRecord<SheetColumnMapping>(saved.sheetColumnMappings, v => isRecord(v) ? v as SheetColumnMapping : null),
+    shortcuts: validRecord(saved.shortcuts, v => Array.isArray(v) ? stringArray(v) : null) as ShortcutBindings,
+    savedStreams: migrateSavedStreams(validArray(saved.savedStreams, validStream)),
+    remoteSources: validArray(saved.remoteSources, validRemoteSource)
+  };
+};
+
+// Throws with a readable reason when the file isn't a backup this build can read. Malformed entries are dropped.
+export const parseBackup = (text: string): BackupData => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Not a backup file');
+  }
+  if (!isRecord(raw) || raw.app !== 'affiplayer' || typeof raw.version !== 'number') throw new Error('Not an Affiplayer backup');
+  if (raw.version > BACKUP_VERSION) throw new Error('This backup is from a newer version of Affiplayer');
+
+  return {
+    settings: migrateSettings(raw.settings),
+    favorites: stringArray(raw.favorites),
+    history: stringArray(raw.history).slice(0, HISTORY_LIMIT),
+    progress: validRecord(raw.progress, validProgress),
+    prefs: validRecord(raw.prefs, validPrefs),
+    playlists: validArray(raw.playlists, validPlaylist),
+    bookmarks: validRecord(raw.bookmarks, v => Array.isArray(v) ? validArray(v, validMarker) : null)
+  };
+};
+
+const mergeProgress = (current: Record<string, WatchProgress>, incoming: Record<string, WatchProgress>): Record<string, WatchProgress> => {
+  const result = { ...incoming };
+  Object.entries(current).forEach(([id, progress]) => {
+    if (!result[id] || progress.updatedAt >= result[id].updatedAt) result[id] = progress;
+  });
+  return result;
+};
+
+const mergePlaylists = (current: Playlist[], incoming: Playlist[]): Playlist[] => {
+  const byId = new Map(current.map(p => [p.id, p]));
+  incoming.forEach(p => {
+    const existing = byId.get(p.id);
+    byId.set(p.id, existing ? { ...existing, videoIds: union(existing.videoIds, p.videoIds) } : p);
+  });
+  return Array.from(byId.values());
+};
+
+const mergeBookmarks = (current: Record<string, Marker[]>, incoming: Record<string, Marker[]>): Record<string, Marker[]> => {
+  const result = { ...current };
+  Object.entries(incoming).forEach(([id, markers]) => {
+    const existing = result[id] || [];
+    result[id] = [...existing, ...markers.filter(m => !existing.some(e => e.id === m.id))].sort((a, b) => a.time - b.time);
+  });
+  return result;
+};
+
+// Sources and lists are combined; preferences like theme and seek time stay as they are on this device
+const mergeSettings = (current: GlobalSettings, incoming: GlobalSettings): GlobalSettings => ({
+  ...current,
+  googleSheetUrls: union(current.googleSheetUrls, incoming.googleSheetUrls),
+  sheetColumnMappings: { ...incoming.sheetColumnMappings, ...current.sheetColumnMappings },
+  sheetAllTabs: union(current.sheetAllTabs, incoming.sheetAllTabs),
+  googleApiKey: current.googleApiKey || incoming.googleApiKey,
+  savedStreams: mergeDuplicates([...current.savedStreams, ...incoming.savedStreams]),
+  remoteSources: [...current.remoteSources, ...incoming.remoteSources.filter(s => !current.remoteSources.some(c => c.url === s.url))]
+});
+
+// Where both sides have an entry for the same video, this device's wins, except progress, where the newer one does
+export const mergeBackup = (current: BackupData, incoming: BackupData): BackupData => ({
+  settings: mergeSettings(current.settings, incoming.settings),
+  favorites: union(current.favorites, incoming.favorites),
+  history: union(current.history, incoming.history).slice(0, HISTORY_LIMIT),
+  progress: mergeProgress(current.progress, incoming.progress),
+  prefs: { ...incoming.prefs, ...current.prefs },
+  playlists: mergePlaylists(current.playlists, incoming.playlists),
+  bookmarks: mergeBookmarks(current.bookmarks, incoming.bookmarks)
+});
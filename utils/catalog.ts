@@ -0,0 +1,113 @@
+import { VideoFile, VideoSourceType, SourceIssue } from '../types';
+import { SUPPORTED_MIME_TYPES, HLS_MIME_TYPE, DASH_MIME_TYPE } from '../constants';
+import { parseChapterList } from './markers';
+import { parseTimestamp } from './subtitles';
+import { guessStreamMimeType } from './streaming';
+import { urlVideoId } from './videoIds';
+
+// Provider-neutral shape of one catalog entry, before validation
+export interface CatalogEntry {
+  name?: string;
+  url?: string;
+  type?: string;
+  thumbnail?: string;
+  duration?: string | number;
+  description?: string;
+  tags?: string[];
+  subtitleUrl?: string;
+  chapters?: string;
+  lastModified?: number;
+}
+
+export const isHttpUrl = (value?: string): value is string => {
+  if (!value) return false;
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+// Playlists and feeds often link relative to themselves, e.g. "media/ep1.mp4"
+const resolveUrl = (value: string | undefined, base: string): string | undefined => {
+  if (!value) return value;
+  try {
+    return new URL(value, base).href;
+  } catch {
+    return value; // Left for validation to report
+  }
+};
+
+export const resolveEntryUrls = (entry: CatalogEntry, base: string): CatalogEntry => ({
+  ...entry,
+  url: resolveUrl(entry.url, base),
+  thumbnail: resolveUrl(entry.thumbnail, base),
+  subtitleUrl: resolveUrl(entry.subtitleUrl, base)
+});
+
+// Plain seconds or a "1:02:03" timestamp
+export const parseDuration = (value?: string | number): number | undefined => {
+  if (typeof value === 'number') return value > 0 ? value : undefined;
+  if (!value) return undefined;
+  if (/^\d+(\.\d+)?$/.test(value.trim())) return parseFloat(value);
+  return parseTimestamp(value) ?? undefined;
+};
+
+export const splitTags = (value?: string): string[] => (value || '').split(/[,;|]/).map(t => t.trim()).filter(Boolean);
+
+const isPlayableType = (type: string): boolean => {
+  return SUPPORTED_MIME_TYPES.includes(type) || type === HLS_MIME_TYPE || type === DASH_MIME_TYPE || /^(video|audio)\//.test(type);
+};
+
+// Returns the reason an entry can't be played, or null when it's usable
+export const validateEntry = (entry: CatalogEntry): string | null => {
+  if (!entry.url) return 'Missing URL';
+  if (!isHttpUrl(entry.url)) return `Invalid URL "${entry.url}"`;
+  const type = entry.type || guessStreamMimeType(entry.url);
+  if (!isPlayableType(type)) return `Unsupported type "${type}"`;
+  return null;
+};
+
+export const toCatalogVideo = (entry: CatalogEntry, id: string, sourceType: VideoSourceType, sheetName: string): VideoFile => {
+  const url = entry.url!;
+  const chapters = entry.chapters ? parseChapterList(entry.chapters) : [];
+  return {
+    id,
+    name: entry.name || url.split('/').pop() || url,
+    url,
+    size: 0,
+    type: entry.type || guessStreamMimeType(url),
+    lastModified: entry.lastModified || Date.now(),
+    duration: parseDuration(entry.duration),
+    sourceType,
+    sheetName,
+    thumbnail: isHttpUrl(entry.thumbnail) ? entry.thumbnail : undefined,
+    description: entry.description || undefined,
+    tags: entry.tags && entry.tags.length > 0 ? entry.tags : undefined,
+    subtitles: isHttpUrl(entry.subtitleUrl) ? [{ id: `${id}-subtitles`, label: 'Subtitles', url: entry.subtitleUrl, cues: [] }] : undefined,
+    chapters: chapters.length > 0 ? chapters : undefined
+  };
+};
+
+// Validates every entry, keeping the playable ones and reporting the rest.
+// Ids come from the URL. `toLegacyId` gives the id an entry had before that, for sources that existed then.
+export const collectEntries = (
+  entries: CatalogEntry[],
+  toRow: (index: number) => number,
+  sourceType: VideoSourceType,
+  sheetName: string,
+  toLegacyId?: (index: number) => string
+): { videos: VideoFile[]; skipped: SourceIssue[] } => {
+  const videos: VideoFile[] = [];
+  const skipped: SourceIssue[] = [];
+  entries.forEach((entry, index) => {
+    const reason = validateEntry(entry);
+    if (reason) skipped.push({ row: toRow(index), reason });
+    else {
+      const video = toCatalogVideo(entry, urlVideoId(entry.url!), sourceType, sheetName);
+      videos.push(toLegacyId ? { ...video, legacyIds: [toLegacyId(index)] } : video);
+    }
+  });
+  return { videos, skipped };
+};
@@ -0,0 +1,243 @@
+import { VideoFile, DownloadProgress, DownloadStatus, OfflineMedia } from '../types';
+import { HLS_MIME_TYPE, DASH_MIME_TYPE } from '../constants';
+import { idbGet, idbGetAll, idbGetRange, idbPut, idbDelete, idbClear, idbRekey } from './idb';
+import { isHttpUrl } from './catalog';
+
+interface OfflineRecord extends OfflineMedia {
+  blob: Blob;
+}
+
+// An unfinished download, kept so it can resume after a reload
+interface PartialRecord {
+  id: string; // Video id
+  video: VideoFile;
+  received: number; // bytes written to chunks
+  total: number;
+  chunks: number;
+}
+
+// Received bytes are written out piece by piece, keyed by [video id, index]
+interface ChunkRecord {
+  id: [string, number];
+  data: Blob;
+}
+
+interface DownloadJob extends PartialRecord {
+  buffered: number; // bytes received but not written yet
+  running: boolean;
+  cancelled: boolean;
+  controller?: AbortController;
+  task?: Promise<void>;
+}
+
+type DownloadListener = (progress: DownloadProgress) => void;
+
+const PROGRESS_INTERVAL = 250; // ms between progress updates while bytes arrive
+const CHUNK_BYTES = 4 * 1024 * 1024; // Held in memory before being written out
+
+const jobs = new Map<string, DownloadJob>();
+const listeners = new Set<DownloadListener>();
+
+const chunkRange = (id: string) => IDBKeyRange.bound([id, 0], [id, Infinity]);
+
+const savePartial = ({ id, video, received, total, chunks }: DownloadJob) =>
+  idbPut<PartialRecord>('partials', { id, video, received, total, chunks });
+
+const discardPartial = async (id: string) => {
+  await idbDelete('chunks', chunkRange(id));
+  await idbDelete('partials', id);
+};
+
+// Adaptive streams are manifests plus segments, not a single file we can save
+export const canDownload = (video: VideoFile): boolean => {
+  if (video.sourceType === 'local' || !isHttpUrl(video.url)) return false;
+  return video.type !== HLS_MIME_TYPE && video.type !== DASH_MIME_TYPE;
+};
+
+export const onDownloadProgress = (listener: DownloadListener): (() => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+const emit = (job: DownloadJob, status: DownloadStatus, error?: string) => {
+  const progress: DownloadProgress = { id: job.id, status, received: job.received + job.buffered, total: job.total, error };
+  listeners.forEach(listener => listener(progress));
+};
+
+// "bytes 100-199/5000" on a ranged response, Content-Length otherwise
+const totalSize = (response: Response, offset: number): number => {
+  const range = response.headers.get('content-range')?.match(/\/(\d+)$/);
+  if (range) return parseInt(range[1], 10);
+  const length = parseInt(response.headers.get('content-length') || '', 10);
+  return isNaN(length) ? 0 : length + offset;
+};
+
+// Whether the response continues from `offset` rather than starting over
+const resumesAt = (response: Response, offset: number): boolean => {
+  if (offset === 0) return true;
+  const start = response.headers.get('content-range')?.match(/^bytes (\d+)-/);
+  return response.status === 206 && !!start && parseInt(start[1], 10) === offset;
+};
+
+const run = async (job: DownloadJob) => {
+  const controller = new AbortController();
+  job.controller = controller;
+  job.running = true;
+  emit(job, 'downloading');
+
+  let pending: Uint8Array[] = [];
+  const flush = async () => {
+    if (job.buffered === 0) return;
+    const data = new Blob(pending, { type: job.video.type });
+    pending = [];
+    await idbPut<ChunkRecord>('chunks', { id: [job.id, job.chunks], data });
+    job.chunks++;
+    job.received += data.size;
+    job.buffered = 0;
+    await savePartial(job);
+  };
+
+  try {
+    const headers: HeadersInit = job.received > 0 ? { Range: `bytes=${job.received}-` } : {};
+    const response = await fetch(job.video.url, { headers, signal: controller.signal });
+    if (!response.ok || !response.body) throw new Error(`Download failed (${response.status})`);
+    // The server ignored the range, so the body starts from the beginning again
+    if (!resumesAt(response, job.received)) {
+      await idbDelete('chunks', chunkRange(job.id));
+      job.chunks = 0;
+      job.received = 0;
+    }
+    job.total = totalSize(response, job.received);
+    await savePartial(job);
+
+    const reader = response.body.getReader();
+    let lastEmit = 0;
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      pending.push(value);
+      job.buffered += value.length;
+      if (job.buffered >= CHUNK_BYTES) await flush();
+      if (Date.now() - lastEmit > PROGRESS_INTERVAL) {
+        lastEmit = Date.now();
+        emit(job, 'downloading');
+      }
+    }
+    await flush();
+
+    // Stored blobs are combined by reference, the file isn't read back into memory
+    const chunks = await idbGetRange<ChunkRecord>('chunks', chunkRange(job.id));
+    const blob = new Blob(chunks.map(chunk => chunk.data), { type: job.video.type });
+    await idbPut<OfflineRecord>('offline', { id: job.id, name: job.video.name, type: job.video.type, size: blob.size, savedAt: Date.now(), blob });
+    await discardPartial(job.id);
+    jobs.delete(job.id);
+    emit(job, 'done');
+  } catch (e) {
+    if (controller.signal.aborted) {
+      // Paused, so what arrived is kept for the resume. Cancelled jobs are discarded by the caller.
+      if (!job.cancelled) await flush().catch(err => console.warn(`Could not save ${job.video.name}`, err));
+      return;
+    }
+    console.warn(`Download of ${job.video.name} failed`, e);
+    await flush().catch(() => undefined);
+    emit(job, 'error', e instanceof Error ? e.message : String(e));
+  } finally {
+    job.running = false;
+  }
+};
+
+const createJob = (partial: PartialRecord): DownloadJob => ({ ...partial, buffered: 0, running: false, cancelled: false });
+
+const start = (job: DownloadJob) => {
+  job.task = run(job);
+};
+
+export const startDownload = (video: VideoFile) => {
+  if (jobs.has(video.id)) return;
+  const job = createJob({ id: video.id, video, received: 0, total: 0, chunks: 0 });
+  jobs.set(video.id, job);
+  // Ask the browser not to evict downloads under storage pressure
+  navigator.storage?.persist?.().catch(() => undefined);
+  start(job);
+};
+
+// Downloads left unfinished in an earlier session, ready to resume
+export const restorePartialDownloads = async (): Promise<DownloadProgress[]> => {
+  const partials = await idbGetAll<PartialRecord>('partials');
+  return partials.map(partial => {
+    const job = jobs.get(partial.id) || createJob(partial);
+    jobs.set(partial.id, job);
+    return { id: job.id, status: job.running ? 'downloading' : 'paused', received: job.received + job.buffered, total: job.total };
+  });
+};
+
+export const pauseDownload = (id: string) => {
+  const job = jobs.get(id);
+  if (!job?.running) return;
+  job.controller?.abort();
+  emit(job, 'paused');
+};
+
+// Also retries a failed download from where it stopped. Right after a pause the job may still be saving what arrived.
+export const resumeDownload = (id: string) => {
+  const job = jobs.get(id);
+  if (!job) return;
+  if (!job.running) start(job);
+  else if (job.controller?.signal.aborted) job.task?.then(() => { if (jobs.get(id) === job && !job.running) start(job); });
+};
+
+export const cancelDownload = (id: string) => {
+  const job = jobs.get(id);
+  if (!job) return;
+  job.cancelled = true;
+  job.controller?.abort();
+  jobs.delete(id);
+  // Waits for the job to stop writing before removing what it stored
+  (job.task || Promise.resolve()).then(() => discardPartial(id)).catch(e => console.warn("Could not discard download", e));
+};
+
+export const listOfflineMedia = async (): Promise<OfflineMedia[]> => {
+  const records = await idbGetAll<OfflineRecord>('offline');
+  return records.map(({ blob: _, ...media }) => media);
+};
+
+// Caller revokes the URL once playback moves on
+export const loadOfflineUrl = async (id: string): Promise<string | null> => {
+  const record = await idbGet<OfflineRecord>('offline', id);
+  return record ? URL.createObjectURL(record.blob) : null;
+};
+
+export const removeOfflineMedia = (id: string): Promise<void> => idbDelete('offline', id);
+
+// Moves a saved copy and any unfinished download to the new id. Resolves true when something moved.
+export const rekeyOfflineMedia = async (from: string, to: string): Promise<boolean> => {
+  const moved = await idbRekey('offline', from, to);
+  const partial = await idbGet<PartialRecord>('partials', from);
+  if (!partial || jobs.get(from)?.running) return moved;
+
+  const chunks = await idbGetRange<ChunkRecord>('chunks', chunkRange(from));
+  for (const chunk of chunks) await idbPut<ChunkRecord>('chunks', { id: [to, chunk.id[1]], data: chunk.data });
+  await idbPut<PartialRecord>('partials', { ...partial, id: to, video: { ...partial.video, id: to } });
+  await discardPartial(from);
+  jobs.delete(from); // restorePartialDownloads picks it up again under the new id
+  return true;
+};
+
+export const clearOfflineMedia = async (): Promise<void> => {
+  const stopping = [...jobs.values()].map(job => {
+    job.cancelled = true;
+    job.controller?.abort();
+    return job.task;
+  });
+  jobs.clear();
+  await Promise.all(stopping);
+  await idbClear('offline');
+  await idbClear('partials');
+  await idbClear('chunks');
+};
+
+export const getStorageEstimate = async (): Promise<{ usage: number; quota: number } | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage = 0, quota = 0 } = await navigator.storage.estimate();
+  return { usage, quota };
+};
@@ -0,0 +1,85 @@
+import { COMMON_FRAME_RATES } from '../constants';
+import { frameAt } from './time';
+
+const FRAME_RATE_SAMPLES = 10;
+const FRAME_CALLBACK_WAIT = 250; // ms after the seek before giving up on a new frame
+const FRAME_RATE_PROBE_TIMEOUT = 5000;
+
+export const supportsFrameCallback = (video: HTMLVideoElement): boolean => 'requestVideoFrameCallback' in video;
+
+// Measured rates jitter, so they're snapped to the closest standard one
+export const snapFrameRate = (fps: number): number =>
+  COMMON_FRAME_RATES.reduce((best, rate) => Math.abs(rate - fps) < Math.abs(best - fps) ? rate : best);
+
+// Reports the frame rate once enough frames have been presented during playback. Returns a cancel function.
+export const watchFrameRate = (video: HTMLVideoElement, onRate: (fps: number) => void): (() => void) => {
+  if (!supportsFrameCallback(video)) return () => undefined;
+
+  let handle = 0;
+  let first: VideoFrameCallbackMetadata | null = null;
+  const onFrame: VideoFrameRequestCallback = (_now, metadata) => {
+    // Seeks and pauses restart the measurement
+    if (!first || metadata.mediaTime < first.mediaTime || metadata.presentedFrames < first.presentedFrames) first = metadata;
+    const frames = metadata.presentedFrames - first.presentedFrames;
+    const elapsed = metadata.mediaTime - first.mediaTime;
+    if (frames >= FRAME_RATE_SAMPLES && elapsed > 0) {
+      onRate(snapFrameRate(frames / elapsed));
+      return;
+    }
+    handle = video.requestVideoFrameCallback(onFrame);
+  };
+  handle = video.requestVideoFrameCallback(onFrame);
+  return () => video.cancelVideoFrameCallback(handle);
+};
+
+// Plays a hidden, muted copy for a moment so the rate is known before playback starts. Returns a cancel function.
+export const probeFrameRate = (url: string, onRate: (fps: number) => void): (() => void) => {
+  const v = document.createElement('video');
+  if (!supportsFrameCallback(v)) return () => undefined;
+
+  // Detached or hidden videos may never present a frame, so it's kept in the page at 1px
+  v.muted = true;
+  v.playsInline = true;
+  v.preload = 'auto';
+  v.style.cssText = 'position:fixed;left:0;top:0;width:1px;height:1px;opacity:0;pointer-events:none';
+  const stop = () => {
+    clearTimeout(timer);
+    stopWatching();
+    v.removeAttribute('src');
+    v.load();
+    v.remove();
+  };
+  const stopWatching = watchFrameRate(v, fps => {
+    stop();
+    onRate(fps);
+  });
+  const timer = window.setTimeout(stop, FRAME_RATE_PROBE_TIMEOUT);
+  v.onloadeddata = () => { v.play().catch(stop); };
+  v.onerror = stop;
+  v.src = url;
+  document.body.appendChild(v);
+  return stop;
+};
+
+// Resolves with the media time of the frame actually shown after the seek
+const presentedTime = (video: HTMLVideoElement, target: number): Promise<number> => new Promise(resolve => {
+  let done = false;
+  const finish = (time: number) => {
+    if (done) return;
+    done = true;
+    resolve(time);
+  };
+  const frameCallback = supportsFrameCallback(video);
+  if (frameCallback) video.requestVideoFrameCallback((_now, metadata) => finish(metadata.mediaTime));
+  // Landing on the frame already shown presents nothing new, so the seek alone settles it
+  video.addEventListener('seeked', () => setTimeout(() => finish(video.currentTime), frameCallback ? FRAME_CALLBACK_WAIT : 0), { once: true });
+  video.currentTime = target;
+});
+
+// Pauses and moves one frame in `direction`, landing just inside the frame so rounding can't skip it
+export const stepFrame = (video: HTMLVideoElement, direction: 1 | -1, fps: number): Promise<number> => {
+  video.pause();
+  const frame = Math.max(0, frameAt(video.currentTime, fps) + direction);
+  const target = Math.min(video.duration || Infinity, (frame + 0.01) / fps);
+  return presentedTime(video, target);
+};
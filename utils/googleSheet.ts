@@ -1,54 +1,137 @@
-import { VideoFile } from '../types';
+import { SheetField, SheetColumnMapping, SourceResult, SheetTab } from '../types';
+import { SHEET_COLUMN_ALIASES, LEGACY_SHEET_COLUMNS } from '../constants';
+import { parseCsv } from './csv';
+import { CatalogEntry, collectEntries, splitTags } from './catalog';
+import { fetchVersioned } from './sourceCache';
+
+export interface SheetFetchOptions {
+  mapping?: SheetColumnMapping;
+  allTabs?: boolean;
+  apiKey?: string;
+}
+
+interface TabRequest {
+  gid?: string; // Omitted to export the first tab
+  title?: string;
+  isFirst: boolean;
+}
 
 export const extractSheetId = (url: string): string | null => {
-  const match = url.match(/\/d\/(.*?)(\/|$)/);
+  const match = url.match(/\/d\/([^/?#]+)/);
   return match ? match[1] : null;
 };
 
-export const fetchSheetData = async (sheetUrl: string): Promise<VideoFile[]> => {
-  const sheetId = extractSheetId(sheetUrl);
-  if (!sheetId) return [];
+// Pasted URLs carry the open tab as "#gid=123" or "?gid=123"
+export const extractSheetGid = (url: string): string | undefined => url.match(/[#?&]gid=(\d+)/)?.[1];
+
+const normalizeHeader = (value: string): string => value.trim().toLowerCase().replace(/[_-]+/g, ' ').replace(/\s+/g, ' ');
 
-  const csvUrl = `https://docs.google.com/spreadsheets/d/${sheetId}/export?format=csv`;
+// Overrides win over the known header names. Sheets without a recognisable URL header keep the original fixed layout.
+export const resolveSheetColumns = (header: string[], mapping: SheetColumnMapping = {}): Partial<Record<SheetField, number>> => {
+  const headers = header.map(normalizeHeader);
+  const columns: Partial<Record<SheetField, number>> = {};
+
+  (Object.keys(SHEET_COLUMN_ALIASES) as SheetField[]).forEach(field => {
+    const override = mapping[field];
+    const candidates = override ? [normalizeHeader(override)] : SHEET_COLUMN_ALIASES[field];
+    const index = headers.findIndex(h => candidates.includes(h));
+    if (index !== -1) columns[field] = index;
+  });
+
+  if (columns.url !== undefined) return columns;
+  return Object.fromEntries(LEGACY_SHEET_COLUMNS.map((field, index) => [field, index]));
+};
+
+// `legacyPrefix` is set for the first tab, whose rows used to be identified by position
+export const parseSheetCsv = (text: string, sheetName: string, mapping?: SheetColumnMapping, legacyPrefix?: string): SourceResult => {
+  const [header = [], ...rows] = parseCsv(text);
+  const columns = resolveSheetColumns(header, mapping);
+
+  // Blank spacer rows aren't worth reporting, but the others keep their position for ids and row numbers
+  const filled = rows.map((cells, index) => ({ cells, index })).filter(({ cells }) => cells.some(c => c.trim()));
+  const entries: CatalogEntry[] = filled.map(({ cells, index }) => {
+    const cell = (field: SheetField): string => {
+      const column = columns[field];
+      return column === undefined ? '' : (cells[column] || '').trim();
+    };
+    return {
+      name: cell('name') || `Video ${index + 1}`,
+      url: cell('url'),
+      type: cell('type') || undefined,
+      thumbnail: cell('thumbnail'),
+      duration: cell('duration'),
+      description: cell('description'),
+      tags: splitTags(cell('tags')),
+      subtitleUrl: cell('subtitleUrl'),
+      chapters: cell('chapters')
+    };
+  });
+
+  return collectEntries(
+    entries,
+    i => filled[i].index + 2, // Spreadsheet numbering, after the header row
+    'googlesheet',
+    sheetName,
+    legacyPrefix ? i => `${legacyPrefix}-${filled[i].index}` : undefined
+  );
+};
+
+// The CSV export can't list tabs, so titles and "all tabs" go through the Sheets API
+export const fetchSheetTabs = async (sheetId: string, apiKey: string): Promise<SheetTab[]> => {
+  const url = `https://sheets.googleapis.com/v4/spreadsheets/${sheetId}?fields=sheets.properties(sheetId,title)&key=${encodeURIComponent(apiKey)}`;
+  const response = await fetch(url);
+  if (!response.ok) throw new Error('Failed to list sheet tabs');
+  const data = await response.json() as { sheets?: { properties: { sheetId: number; title: string } }[] };
+  return (data.sheets || []).map(s => ({ gid: String(s.properties.sheetId), title: s.properties.title }));
+};
+
+// Exports are named "<Spreadsheet> - <Tab>.csv", readable when the header is exposed cross-origin
+const titleFromDisposition = (header: string | null): string | undefined => {
+  const match = header?.match(/filename\*?=(?:UTF-8'')?"?([^";]+)"?/i);
+  if (!match) return undefined;
+  const fileName = decodeURIComponent(match[1]).replace(/\.csv$/i, '');
+  const index = fileName.lastIndexOf(' - ');
+  return index === -1 ? fileName : fileName.slice(index + 3);
+};
+
+const resolveTabs = async (sheetId: string, gid: string | undefined, options: SheetFetchOptions): Promise<TabRequest[]> => {
+  const fallback: TabRequest[] = [{ gid, isFirst: !gid || gid === '0' }];
+  if (!options.apiKey) {
+    if (options.allTabs) console.warn("Importing all tabs needs a Google API key, using the linked tab only");
+    return fallback;
+  }
 
   try {
-    const response = await fetch(csvUrl);
-    if (!response.ok) throw new Error('Failed to fetch sheet');
-    
-    const text = await response.text();
-    // Split by newline, handling both \r\n and \n
-    const rows = text.split(/\r?\n/).slice(1); 
-    
-    return rows.map((row, index) => {
-      // Basic CSV parser that handles quotes properly
-      // Regex: Matches quoted strings OR non-comma sequences
-      const regex = /(".*?"|[^",\s]+)(?=\s*,|\s*$)/g;
-      // This is a simplified split logic for robustness
-      const cols = row.split(/,(?=(?:(?:[^"]*"){2})*[^"]*$)/).map(c => c.trim().replace(/^"|"$/g, ''));
-      
-      if (cols.length < 2 || !cols[1]) return null; 
-
-      const name = cols[0] || `Video ${index + 1}`;
-      const url = cols[1];
-      const thumbnail = cols[2] || undefined;
-      
-      if (!url.startsWith('http')) return null; // Invalid URL check
-
-      return {
-        id: `sheet-${sheetId}-${index}`,
-        name: name,
-        url: url,
-        size: 0,
-        type: 'video/mp4', 
-        lastModified: Date.now(),
-        sourceType: 'googlesheet',
-        sheetName: 'Online DB', 
-        thumbnail: thumbnail
-      } as VideoFile;
-    }).filter((v): v is VideoFile => v !== null);
-
-  } catch (error) {
-    console.error("Error fetching Google Sheet:", error);
-    return [];
+    const tabs = await fetchSheetTabs(sheetId, options.apiKey);
+    const requests = tabs.map((tab, index) => ({ ...tab, isFirst: index === 0 }));
+    if (options.allTabs) return requests;
+    const linked = gid ? requests.find(t => t.gid === gid) : requests[0];
+    return linked ? [linked] : fallback;
+  } catch (e) {
+    console.warn("Could not list sheet tabs", e);
+    return fallback;
   }
-};
\ No newline at end of file
+};
+
+const fetchTab = async (sheetId: string, tab: TabRequest, mapping?: SheetColumnMapping): Promise<SourceResult> => {
+  const csvUrl = `https://docs.google.com/spreadsheets/d/${sheetId}/export?format=csv${tab.gid ? `&gid=${tab.gid}` : ''}`;
+  const { text, version, response } = await fetchVersioned(csvUrl);
+
+  const sheetName = tab.title || titleFromDisposition(response.headers.get('content-disposition')) || 'Online DB';
+  // Only the first tab was read before tab support
+  const { videos, skipped } = parseSheetCsv(text, sheetName, mapping, tab.isFirst ? `sheet-${sheetId}` : undefined);
+  return { videos, skipped: skipped.map(issue => ({ ...issue, tab: sheetName })), version };
+};
+
+export const fetchSheetData = async (sheetUrl: string, options: SheetFetchOptions = {}): Promise<SourceResult> => {
+  const sheetId = extractSheetId(sheetUrl);
+  if (!sheetId) throw new Error(`Not a Google Sheet URL: ${sheetUrl}`);
+
+  const tabs = await resolveTabs(sheetId, extractSheetGid(sheetUrl), options);
+  const results = await Promise.all(tabs.map(tab => fetchTab(sheetId, tab, options.mapping)));
+  return {
+    videos: results.flatMap(r => r.videos),
+    skipped: results.flatMap(r => r.skipped),
+    version: results.map(r => r.version).join('|')
+  };
+};
@@ -0,0 +1,83 @@
+import { AudioTags } from '../types';
+
+const TEXT_FRAMES: Record<string, keyof Omit<AudioTags, 'cover'>> = {
+  TIT2: 'title', TT2: 'title',
+  TPE1: 'artist', TP1: 'artist',
+  TALB: 'album', TAL: 'album'
+};
+
+const PICTURE_FORMATS: Record<string, string> = { JPG: 'image/jpeg', PNG: 'image/png' };
+
+// Sizes in the tag header (and v2.4 frame headers) use 7 bits per byte
+const synchsafe = (b: Uint8Array, at: number): number => (b[at] << 21) | (b[at + 1] << 14) | (b[at + 2] << 7) | b[at + 3];
+const uint = (b: Uint8Array, at: number, length: number): number => {
+  let value = 0;
+  for (let i = 0; i < length; i++) value = value * 256 + b[at + i];
+  return value;
+};
+
+// 0 = Latin-1, 1 = UTF-16 with BOM, 2 = UTF-16BE, 3 = UTF-8
+const decoderFor = (encoding: number): TextDecoder => {
+  if (encoding === 1) return new TextDecoder('utf-16');
+  if (encoding === 2) return new TextDecoder('utf-16be');
+  if (encoding === 3) return new TextDecoder('utf-8');
+  return new TextDecoder('iso-8859-1');
+};
+
+const decodeText = (bytes: Uint8Array, encoding: number): string => decoderFor(encoding).decode(bytes).replace(/\0+$/, '').split('\0')[0].trim();
+
+// Offset just past a string terminator, two zero bytes (aligned) for the UTF-16 encodings
+const skipString = (b: Uint8Array, at: number, encoding: number): number => {
+  const wide = encoding === 1 || encoding === 2;
+  for (let i = at; i < b.length; i += wide ? 2 : 1) {
+    if (b[i] === 0 && (!wide || b[i + 1] === 0)) return i + (wide ? 2 : 1);
+  }
+  return b.length;
+};
+
+// APIC: encoding, MIME type, picture type, description, data. v2.2 PIC has a 3 letter format instead of the MIME type.
+const readPicture = (body: Uint8Array, legacy: boolean): Blob | undefined => {
+  const encoding = body[0];
+  let offset: number;
+  let type: string;
+  if (legacy) {
+    type = PICTURE_FORMATS[decodeText(body.subarray(1, 4), 0).toUpperCase()] || 'image/jpeg';
+    offset = 4;
+  } else {
+    offset = skipString(body, 1, 0);
+    type = decodeText(body.subarray(1, offset), 0) || 'image/jpeg';
+    if (!type.includes('/')) type = PICTURE_FORMATS[type.toUpperCase()] || 'image/jpeg';
+  }
+  offset = skipString(body, offset + 1, encoding); // Picture type, then the description
+  return offset < body.length ? new Blob([body.slice(offset)], { type }) : undefined;
+};
+
+// Title, artist, album and the first embedded picture of an ID3v2 tag at the start of the file
+export const readId3Tags = (bytes: Uint8Array): AudioTags => {
+  const tags: AudioTags = {};
+  if (bytes.length < 10 || decodeText(bytes.subarray(0, 3), 0) !== 'ID3') return tags;
+
+  const version = bytes[3];
+  const flags = bytes[5];
+  const end = Math.min(bytes.length, 10 + synchsafe(bytes, 6));
+  if (version < 2 || version > 4 || flags & 0x80) return tags; // Unsynchronised tags are rare enough to skip
+
+  let offset = 10;
+  if (flags & 0x40 && version > 2) offset += version === 4 ? synchsafe(bytes, 10) : uint(bytes, 10, 4) + 4;
+
+  const idLength = version === 2 ? 3 : 4;
+  const headerLength = version === 2 ? 6 : 10;
+  while (offset + headerLength <= end) {
+    const id = decodeText(bytes.subarray(offset, offset + idLength), 0);
+    if (!/^[A-Z0-9]+$/.test(id)) break; // Padding
+    const size = version === 2 ? uint(bytes, offset + 3, 3) : version === 4 ? synchsafe(bytes, offset + 4) : uint(bytes, offset + 4, 4);
+    const body = bytes.subarray(offset + headerLength, Math.min(end, offset + headerLength + size));
+    offset += headerLength + size;
+    if (body.length === 0) continue;
+
+    const field = TEXT_FRAMES[id];
+    if (field && !tags[field]) tags[field] = decodeText(body.subarray(1), body[0]) || undefined;
+    else if ((id === 'APIC' || id === 'PIC') && !tags.cover) tags.cover = readPicture(body, id === 'PIC');
+  }
+  return tags;
+};
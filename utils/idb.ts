@@ -0,0 +1,85 @@
+// Minimal promise wrapper around IndexedDB. Every store is keyed by `id`.
+const DB_NAME = 'affiplayer';
+const DB_VERSION = 6;
+
+export type StoreName = 'library' | 'thumbnails' | 'storyboards' | 'offline' | 'waveforms' | 'partials' | 'chunks' | 'subtitles';
+const STORES: StoreName[] = ['library', 'thumbnails', 'storyboards', 'offline', 'waveforms', 'partials', 'chunks', 'subtitles'];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (!('indexedDB' in window)) {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      STORES.forEach(name => {
+        if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath: 'id' });
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  dbPromise.catch(() => { dbPromise = null; }); // Allow retrying after a failure
+  return dbPromise;
+};
+
+const run = async <T,>(store: StoreName, mode: IDBTransactionMode, action: (s: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const request = action(tx.objectStore(store));
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const idbGet = <T,>(store: StoreName, id: string): Promise<T | undefined> =>
+  run<T | undefined>(store, 'readonly', s => s.get(id));
+
+export const idbGetAll = <T,>(store: StoreName): Promise<T[]> =>
+  run<T[]>(store, 'readonly', s => s.getAll());
+
+// Records come back in key order
+export const idbGetRange = <T,>(store: StoreName, range: IDBKeyRange): Promise<T[]> =>
+  run<T[]>(store, 'readonly', s => s.getAll(range));
+
+export const idbPut = <T extends { id: IDBValidKey },>(store: StoreName, value: T): Promise<void> =>
+  run<unknown>(store, 'readwrite', s => s.put(value)).then(() => undefined);
+
+export const idbDelete = (store: StoreName, id: string | IDBKeyRange): Promise<void> =>
+  run<unknown>(store, 'readwrite', s => s.delete(id)).then(() => undefined);
+
+// Moves a record to a new id. One already stored there is newer and wins, the old record goes either way.
+export const idbRekey = async (store: StoreName, from: string, to: string): Promise<boolean> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(store, 'readwrite');
+    const s = tx.objectStore(store);
+    let moved = false;
+    const request = s.get(from);
+    request.onsuccess = () => {
+      if (request.result === undefined) return;
+      const existing = s.getKey(to);
+      existing.onsuccess = () => {
+        if (existing.result === undefined) {
+          s.put({ ...request.result, id: to });
+          moved = true;
+        }
+        s.delete(from);
+      };
+    };
+    tx.oncomplete = () => resolve(moved);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const idbClear = (store: StoreName): Promise<void> =>
+  run<unknown>(store, 'readwrite', s => s.clear()).then(() => undefined);
@@ -0,0 +1,69 @@
+import { RemoteSource, SourceResult } from '../types';
+import { CatalogEntry, collectEntries, splitTags, resolveEntryUrls } from './catalog';
+import { formatPreciseTime } from './time';
+
+type JsonItem = Record<string, unknown>;
+
+// First non-empty value among the common spellings of a field
+const pick = (item: JsonItem, keys: string[]): unknown => {
+  return keys.map(k => item[k]).find(v => v !== undefined && v !== null && v !== '');
+};
+
+const asString = (value: unknown): string | undefined => {
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number') return String(value);
+  return undefined;
+};
+
+// "url" or { url } or [{ url }, ...], the first usable entry wins
+const asUrl = (value: unknown): string | undefined => {
+  if (Array.isArray(value)) return value.map(asUrl).find(Boolean);
+  if (value && typeof value === 'object') return asString((value as JsonItem).url ?? (value as JsonItem).src);
+  return asString(value);
+};
+
+const asTags = (value: unknown): string[] => {
+  if (Array.isArray(value)) return value.map(asString).filter((t): t is string => !!t);
+  return splitTags(asString(value));
+};
+
+// Chapters as "0:00 Intro; 4:30 Setup" or [{ time, title }]
+const asChapters = (value: unknown): string | undefined => {
+  if (!Array.isArray(value)) return asString(value);
+  return value
+    .filter((c): c is JsonItem => !!c && typeof c === 'object')
+    .map(c => {
+      const time = c.time ?? c.start;
+      // Chapter lists read timestamps, so plain seconds are written as one
+      return `${typeof time === 'number' ? formatPreciseTime(time) : asString(time) || '0:00'} ${asString(c.title ?? c.label) || ''}`;
+    })
+    .join(';');
+};
+
+const toEntry = (item: JsonItem): CatalogEntry => {
+  const published = asString(pick(item, ['published', 'date', 'updated', 'createdAt']));
+  return {
+    name: asString(pick(item, ['title', 'name'])),
+    url: asUrl(pick(item, ['url', 'src', 'source', 'stream', 'file', 'sources'])),
+    type: asString(pick(item, ['type', 'mimeType', 'mime'])),
+    thumbnail: asUrl(pick(item, ['thumbnail', 'thumb', 'image', 'poster', 'cover'])),
+    duration: asString(pick(item, ['duration', 'length'])),
+    description: asString(pick(item, ['description', 'summary'])),
+    tags: asTags(pick(item, ['tags', 'category', 'categories', 'genre'])),
+    subtitleUrl: asUrl(pick(item, ['subtitles', 'subtitle', 'captions', 'tracks'])),
+    chapters: asChapters(pick(item, ['chapters'])),
+    lastModified: published ? Date.parse(published) || undefined : undefined
+  };
+};
+
+// Accepts a bare array or an object wrapping it as items/videos/entries/playlist
+export const parseJsonCatalog = (text: string, source: RemoteSource): SourceResult => {
+  const data = JSON.parse(text) as unknown;
+  const root = (data && typeof data === 'object' && !Array.isArray(data) ? data : {}) as JsonItem;
+  const items = Array.isArray(data) ? data : pick(root, ['items', 'videos', 'entries', 'playlist']);
+  if (!Array.isArray(items)) throw new Error('JSON catalog has no list of items');
+
+  const name = source.name || asString(pick(root, ['title', 'name'])) || new URL(source.url).hostname;
+  const entries = items.map(item => (item && typeof item === 'object' ? resolveEntryUrls(toEntry(item as JsonItem), source.url) : {}));
+  return collectEntries(entries, i => i + 1, 'json', name);
+};
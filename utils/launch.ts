@@ -0,0 +1,68 @@
+import { ImportedFile, isSupportedMediaFile } from './localLibrary';
+
+// File Handling API bits that the DOM lib doesn't ship yet
+export interface LaunchParams {
+  files: FileSystemFileHandle[];
+}
+
+export interface LaunchQueue {
+  setConsumer(consumer: (params: LaunchParams) => void): void;
+}
+
+declare global {
+  interface Window {
+    launchQueue?: LaunchQueue;
+  }
+}
+
+export interface SharedPayload {
+  files: File[];
+  url?: string;
+  title?: string;
+}
+
+const SHARE_CACHE = 'affiplayer-share-target'; // Must match public/share-target-sw.js
+
+// "Open with Affiplayer" from the OS file manager. Files that can't be read (moved, deleted, no permission) are reported by count.
+export const consumeLaunchQueue = (onFiles: (entries: ImportedFile[]) => void, onUnreadable: (count: number) => void) => {
+  window.launchQueue?.setConsumer(async ({ files }) => {
+    const results = await Promise.allSettled(files.map(async handle => ({ file: await handle.getFile(), handle })));
+    const entries = results.flatMap(result => result.status === 'fulfilled' ? [result.value] : []);
+    const failed = results.length - entries.length;
+    if (failed > 0) {
+      console.warn("Could not read launched files", results.filter(result => result.status === 'rejected').map(result => result.reason));
+      onUnreadable(failed);
+    }
+    const supported = entries.filter(entry => isSupportedMediaFile(entry.file));
+    if (supported.length > 0) onFiles(supported);
+  });
+};
+
+// Apps often share "Title https://..." as text rather than filling the url field
+export const findSharedUrl = (url?: string, text?: string): string | undefined => {
+  if (url?.trim()) return url.trim();
+  return text?.match(/https?:\/\/\S+/)?.[0];
+};
+
+// Picks up what the service worker parked for a Share Target launch, then clears it
+export const readSharedPayload = async (search: string = window.location.search): Promise<SharedPayload | null> => {
+  if (!new URLSearchParams(search).has('share-target') || !('caches' in window)) return null;
+  window.history.replaceState(null, '', window.location.pathname);
+
+  const cache = await caches.open(SHARE_CACHE);
+  const metaResponse = await cache.match('/share-target/meta');
+  if (!metaResponse) return null;
+  const meta = await metaResponse.json() as { title: string; text: string; url: string; fileCount: number };
+
+  const files: File[] = [];
+  for (let i = 0; i < meta.fileCount; i++) {
+    const response = await cache.match(`/share-target/file/${i}`);
+    if (!response) continue;
+    const name = decodeURIComponent(response.headers.get('X-File-Name') || `shared-${i}`);
+    const lastModified = Number(response.headers.get('X-Last-Modified')) || Date.now();
+    files.push(new File([await response.blob()], name, { type: response.headers.get('Content-Type') || '', lastModified }));
+  }
+  await caches.delete(SHARE_CACHE);
+
+  return { files: files.filter(isSupportedMediaFile), url: findSharedUrl(meta.url, meta.text), title: meta.title || undefined };
+};
@@ -0,0 +1,194 @@
+import { VideoFile } from '../types';
+import { SUPPORTED_MIME_TYPES, MEDIA_EXTENSION_TYPES } from '../constants';
+import { idbGetAll, idbPut, idbDelete, idbClear } from './idb';
+import { localVideoId, legacyLocalVideoId } from './videoIds';
+
+// File System Access API bits that the DOM lib doesn't ship yet
+declare global {
+  interface FileSystemHandle {
+    queryPermission?(descriptor?: { mode?: 'read' | 'readwrite' }): Promise<PermissionState>;
+    requestPermission?(descriptor?: { mode?: 'read' | 'readwrite' }): Promise<PermissionState>;
+  }
+  interface FileSystemDirectoryHandle {
+    values(): AsyncIterableIterator<FileSystemFileHandle | FileSystemDirectoryHandle>;
+  }
+  interface Window {
+    showOpenFilePicker?(options?: {
+      multiple?: boolean;
+      types?: { description?: string; accept: Record<string, string[]> }[];
+    }): Promise<FileSystemFileHandle[]>;
+    showDirectoryPicker?(options?: { mode?: 'read' | 'readwrite' }): Promise<FileSystemDirectoryHandle>;
+  }
+}
+
+export interface ImportedFile {
+  file: File;
+  handle?: FileSystemFileHandle;
+  relativePath?: string; // "Folder/Sub/file.mp4" for folder imports
+}
+
+// What we persist per local import: a handle when the browser supports it, otherwise the file itself
+export interface StoredLocalFile {
+  id: string;
+  name: string;
+  size: number;
+  type: string;
+  lastModified: number;
+  relativePath?: string;
+  handle?: FileSystemFileHandle;
+  blob?: File;
+}
+
+export interface RestoredLibrary {
+  videos: VideoFile[];
+  needsPermission: StoredLocalFile[];
+}
+
+export const mediaTypeOf = (file: File): string => {
+  return file.type || MEDIA_EXTENSION_TYPES[file.name.split('.').pop()?.toLowerCase() || ''] || '';
+};
+
+export const isSupportedMediaFile = (file: File): boolean => SUPPORTED_MIME_TYPES.includes(mediaTypeOf(file));
+
+export const folderOf = (relativePath?: string): string => {
+  if (!relativePath) return '';
+  const index = relativePath.lastIndexOf('/');
+  return index === -1 ? '' : relativePath.slice(0, index);
+};
+
+export const toLocalVideo = (file: File, relativePath?: string): VideoFile => ({
+  id: localVideoId(file),
+  legacyIds: [legacyLocalVideoId(file)],
+  file,
+  name: file.name,
+  url: URL.createObjectURL(file),
+  size: file.size,
+  type: mediaTypeOf(file),
+  lastModified: file.lastModified,
+  sourceType: 'local',
+  relativePath
+});
+
+export const supportsFileHandles = (): boolean => typeof window.showOpenFilePicker === 'function';
+
+export const supportsDirectoryPicker = (): boolean => typeof window.showDirectoryPicker === 'function';
+
+// Files from <input webkitdirectory> carry their path; plain multi-select files don't
+export const filesFromInput = (files: File[]): ImportedFile[] => {
+  return files
+    .map(file => ({ file, relativePath: file.webkitRelativePath || undefined }))
+    .filter(entry => !entry.relativePath || isSupportedMediaFile(entry.file));
+};
+
+const scanDirectory = async (dir: FileSystemDirectoryHandle, path: string): Promise<ImportedFile[]> => {
+  const results: ImportedFile[] = [];
+  for await (const entry of dir.values()) {
+    const entryPath = `${path}/${entry.name}`;
+    if (entry.kind === 'directory') {
+      results.push(...await scanDirectory(entry, entryPath));
+    } else {
+      const file = await entry.getFile();
+      if (isSupportedMediaFile(file)) results.push({ file, handle: entry, relativePath: entryPath });
+    }
+  }
+  return results;
+};
+
+export const pickLocalFolder = async (): Promise<ImportedFile[]> => {
+  if (!window.showDirectoryPicker) return [];
+  try {
+    const dir = await window.showDirectoryPicker({ mode: 'read' });
+    return scanDirectory(dir, dir.name);
+  } catch (e) {
+    if ((e as DOMException).name === 'AbortError') return [];
+    throw e;
+  }
+};
+
+export const pickLocalFiles = async (): Promise<ImportedFile[]> => {
+  if (!window.showOpenFilePicker) return [];
+  try {
+    const handles = await window.showOpenFilePicker({
+      multiple: true,
+      types: [{ description: 'Media', accept: { 'video/*': [], 'audio/*': [] } }]
+    });
+    return Promise.all(handles.map(async handle => ({ file: await handle.getFile(), handle })));
+  } catch (e) {
+    if ((e as DOMException).name === 'AbortError') return []; // User closed the picker
+    throw e;
+  }
+};
+
+export const saveLocalFiles = async (entries: ImportedFile[]): Promise<number> => {
+  let failed = 0;
+  for (const { file, handle, relativePath } of entries) {
+    const record: StoredLocalFile = {
+      id: localVideoId(file),
+      name: file.name,
+      size: file.size,
+      type: mediaTypeOf(file),
+      lastModified: file.lastModified,
+      relativePath,
+      ...(handle ? { handle } : { blob: file })
+    };
+    try {
+      await idbPut('library', record);
+    } catch (e) {
+      console.warn(`Could not persist ${file.name}`, e); // Usually a storage quota error
+      failed++;
+    }
+  }
+  return failed;
+};
+
+const readRecord = async (record: StoredLocalFile): Promise<File | null> => {
+  if (record.blob) return record.blob;
+  if (!record.handle) return null;
+  const permission = record.handle.queryPermission ? await record.handle.queryPermission({ mode: 'read' }) : 'granted';
+  if (permission !== 'granted') return null;
+  return record.handle.getFile();
+};
+
+export const loadLocalLibrary = async (): Promise<RestoredLibrary> => {
+  const records = await idbGetAll<StoredLocalFile>('library');
+  const videos: VideoFile[] = [];
+  const needsPermission: StoredLocalFile[] = [];
+
+  for (const record of records) {
+    try {
+      const file = await readRecord(record);
+      if (file) videos.push(toLocalVideo(file, record.relativePath));
+      else if (record.handle) needsPermission.push(record);
+    } catch (e) {
+      console.warn(`Could not restore ${record.name}`, e); // Moved or deleted on disk
+    }
+  }
+  return { videos, needsPermission };
+};
+
+// Must run from a user gesture, browsers only show the permission prompt then. A gesture is good for one prompt,
+// so each call asks for the first file and then picks up any others that became readable with it.
+export const requestLocalAccess = async (records: StoredLocalFile[]): Promise<RestoredLibrary> => {
+  const videos: VideoFile[] = [];
+  const needsPermission: StoredLocalFile[] = [];
+
+  for (const [index, record] of records.entries()) {
+    try {
+      if (index === 0) await record.handle?.requestPermission?.({ mode: 'read' });
+      const file = await readRecord(record);
+      if (file) videos.push(toLocalVideo(file, record.relativePath));
+      else needsPermission.push(record);
+    } catch (e) {
+      console.warn(`Could not restore ${record.name}`, e);
+      // Moved or deleted on disk, asking again won't help
+      if ((e as DOMException).name !== 'NotFoundError') needsPermission.push(record);
+    }
+  }
+  // A file that was refused goes last, so the next click asks about a different one
+  if (needsPermission[0] === records[0]) needsPermission.push(needsPermission.shift()!);
+  return { videos, needsPermission };
+};
+
+export const removeLocalFile = (id: string): Promise<void> => idbDelete('library', id);
+
+export const clearLocalLibrary = (): Promise<void> => idbClear('library');
@@ -0,0 +1,56 @@
+import { RemoteSource, SourceResult } from '../types';
+import { CatalogEntry, collectEntries, resolveEntryUrls } from './catalog';
+
+const ATTRIBUTE_PATTERN = /([\w-]+)="([^"]*)"/g;
+
+// A media playlist (segments) or master playlist (renditions) is one stream, not a channel list
+export const isHlsManifest = (text: string): boolean => /^#EXT-X-(TARGETDURATION|STREAM-INF|MEDIA-SEQUENCE)/m.test(text);
+
+// "#EXTINF:-1 tvg-logo="..." group-title="News",Channel Name"
+const parseExtinf = (line: string): CatalogEntry => {
+  const body = line.slice('#EXTINF:'.length);
+  const attributes: Record<string, string> = {};
+  for (const [, key, value] of body.matchAll(ATTRIBUTE_PATTERN)) attributes[key.toLowerCase()] = value;
+
+  // The title follows the first comma outside the quoted attribute values
+  const bare = body.replace(ATTRIBUTE_PATTERN, '');
+  const comma = bare.indexOf(',');
+  const duration = parseFloat(bare);
+  return {
+    name: (comma === -1 ? '' : bare.slice(comma + 1).trim()) || attributes['tvg-name'],
+    thumbnail: attributes['tvg-logo'],
+    duration: duration > 0 ? duration : undefined,
+    tags: attributes['group-title'] ? [attributes['group-title']] : []
+  };
+};
+
+export const parseM3uPlaylist = (text: string, source: RemoteSource): SourceResult => {
+  if (isHlsManifest(text)) throw new Error('This is an HLS stream, add it as a network stream instead');
+
+  const entries: CatalogEntry[] = [];
+  const lineNumbers: number[] = [];
+  let pending: CatalogEntry = {};
+
+  text.replace(/^\uFEFF/, '').split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line) return;
+    // #EXTGRP may come before or after the #EXTINF it belongs with
+    if (line.startsWith('#EXTINF:')) {
+      const info = parseExtinf(line);
+      pending = { ...pending, ...info, tags: [...(pending.tags || []), ...(info.tags || [])] };
+      return;
+    }
+    if (line.startsWith('#EXTGRP:')) {
+      pending.tags = [...(pending.tags || []), line.slice('#EXTGRP:'.length).trim()];
+      return;
+    }
+    if (line.startsWith('#')) return; // #EXTM3U, #EXTVLCOPT and other directives
+
+    entries.push(resolveEntryUrls({ ...pending, url: line }, source.url));
+    lineNumbers.push(index + 1);
+    pending = {};
+  });
+
+  const name = source.name || new URL(source.url).pathname.split('/').pop() || 'Playlist';
+  return collectEntries(entries, i => lineNumbers[i], 'm3u', name);
+};
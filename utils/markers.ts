@@ -0,0 +1,53 @@
+import { Marker, MarkerKind } from '../types';
+import { parseTimestamp, parseVtt } from './subtitles';
+
+export const createMarker = (time: number, label: string, kind: MarkerKind): Marker => ({
+  id: `${kind}-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`,
+  time,
+  label,
+  kind
+});
+
+export const sortMarkers = (markers: Marker[]): Marker[] => [...markers].sort((a, b) => a.time - b.time);
+
+// WebVTT chapter files are ordinary cue files whose cue text is the chapter title
+export const parseVttChapters = (text: string): Marker[] => {
+  return parseVtt(text).map((cue, index) => ({
+    id: `chapter-${index}-${cue.start}`,
+    time: cue.start,
+    label: cue.text.split('\n')[0],
+    kind: 'chapter' as const
+  }));
+};
+
+// Sheet cells list chapters as "0:00 Intro; 4:30 Setup", one per line also works
+export const parseChapterList = (value: string): Marker[] => {
+  const chapters: Marker[] = [];
+  value.split(/[;\n]/).forEach(entry => {
+    const match = entry.trim().match(/^(\d+(?::\d{1,2}){1,2}(?:\.\d+)?)\s*[-–—]?\s*(.*)$/);
+    if (!match) return;
+    const time = parseTimestamp(match[1]);
+    if (time === null) return;
+    chapters.push({ id: `chapter-${chapters.length}-${time}`, time, label: match[2] || `Chapter ${chapters.length + 1}`, kind: 'chapter' });
+  });
+  return sortMarkers(chapters);
+};
+
+// The marker whose section contains `time`, if any
+export const markerAt = (markers: Marker[], time: number): Marker | undefined => {
+  let current: Marker | undefined;
+  for (const marker of markers) {
+    if (marker.time > time) break;
+    current = marker;
+  }
+  return current;
+};
+
+export const nextMarker = (markers: Marker[], time: number): Marker | undefined => {
+  return markers.find(m => m.time > time + 0.5);
+};
+
+// Like a CD player: shortly after a marker, "previous" skips to the one before it
+export const prevMarker = (markers: Marker[], time: number): Marker | undefined => {
+  return markerAt(markers, time - 2);
+};
@@ -0,0 +1,45 @@
+import { WatchProgress, ResumeBehavior } from '../types';
+import { WATCHED_THRESHOLD, MIN_RESUME_TIME } from '../constants';
+
+// Older builds stored only the position in seconds
+export const normalizeProgressHistory = (raw: Record<string, number | WatchProgress>): Record<string, WatchProgress> => {
+  const result: Record<string, WatchProgress> = {};
+  Object.entries(raw).forEach(([id, value]) => {
+    result[id] = typeof value === 'number'
+      ? { position: value, duration: 0, updatedAt: 0, completed: false }
+      : value;
+  });
+  return result;
+};
+
+export const updateProgress = (prev: WatchProgress | undefined, position: number, duration: number): WatchProgress => {
+  // Live streams report Infinity, keep whatever we knew before
+  const knownDuration = duration > 0 && isFinite(duration) ? duration : prev?.duration || 0;
+  const finished = knownDuration > 0 && position / knownDuration >= WATCHED_THRESHOLD;
+  // Opening a finished video saves its start, so it only counts as unwatched again once a rewatch gets going
+  const restarted = position >= MIN_RESUME_TIME;
+  return {
+    position,
+    duration: knownDuration,
+    updatedAt: Date.now(),
+    completed: finished || (!!prev?.completed && !restarted)
+  };
+};
+
+export const progressRatio = (progress?: WatchProgress): number => {
+  if (!progress || progress.duration <= 0) return 0;
+  return Math.min(1, Math.max(0, progress.position / progress.duration));
+};
+
+export const isInProgress = (progress?: WatchProgress): boolean => {
+  return !!progress && !progress.completed && progress.position > 10 && progress.duration > 0;
+};
+
+// Decides where playback starts and whether to ask; finished videos always restart
+export const resolveStartTime = (progress: WatchProgress | undefined, behavior: ResumeBehavior): { startTime: number; promptTime?: number } => {
+  if (!progress || progress.position < MIN_RESUME_TIME) return { startTime: 0 };
+  if (progress.duration > 0 && progress.position / progress.duration >= WATCHED_THRESHOLD) return { startTime: 0 };
+  if (behavior === 'restart') return { startTime: 0 };
+  if (behavior === 'resume') return { startTime: progress.position };
+  return { startTime: 0, promptTime: progress.position };
+};
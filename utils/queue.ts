@@ -0,0 +1,46 @@
+// Pure helpers for the play queue, which is stored as an ordered list of video ids
+
+export const moveItem = <T,>(items: T[], from: number, to: number): T[] => {
+  const result = [...items];
+  const [moved] = result.splice(from, 1);
+  result.splice(to, 0, moved);
+  return result;
+};
+
+// Keeps the current video first and shuffles the rest (Fisher-Yates)
+export const shuffleAround = (ids: string[], currentId?: string): string[] => {
+  const rest = ids.filter(id => id !== currentId);
+  for (let i = rest.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [rest[i], rest[j]] = [rest[j], rest[i]];
+  }
+  return currentId && ids.includes(currentId) ? [currentId, ...rest] : rest;
+};
+
+// Restores the pre-shuffle order, keeping anything queued or removed since then
+export const unshuffle = (queue: string[], original: string[]): string[] => {
+  const present = new Set(queue);
+  const known = new Set(original);
+  return [...original.filter(id => present.has(id)), ...queue.filter(id => !known.has(id))];
+};
+
+export const insertAfter = (ids: string[], id: string, afterId?: string): string[] => {
+  const without = ids.filter(i => i !== id);
+  const index = afterId ? without.indexOf(afterId) : -1;
+  without.splice(index + 1, 0, id);
+  return without;
+};
+
+export const nextInQueue = (ids: string[], currentId: string, repeatAll: boolean): string | undefined => {
+  const index = ids.indexOf(currentId);
+  if (index === -1) return undefined;
+  if (index < ids.length - 1) return ids[index + 1];
+  return repeatAll && ids.length > 1 ? ids[0] : undefined;
+};
+
+export const prevInQueue = (ids: string[], currentId: string, repeatAll: boolean): string | undefined => {
+  const index = ids.indexOf(currentId);
+  if (index === -1) return undefined;
+  if (index > 0) return ids[index - 1];
+  return repeatAll && ids.length > 1 ? ids[ids.length - 1] : undefined;
+};
@@ -0,0 +1,70 @@
+import { RemoteSource, SourceResult } from '../types';
+import { CatalogEntry, collectEntries, resolveEntryUrls } from './catalog';
+
+// Namespaced tags (media:content, itunes:image) match by local name, whatever prefix the feed declares
+const childrenNamed = (parent: Element, name: string): Element[] => {
+  return Array.from(parent.children).filter(el => el.localName === name);
+};
+
+const childText = (parent: Element, name: string): string | undefined => {
+  return childrenNamed(parent, name).map(el => el.textContent?.trim()).find(Boolean);
+};
+
+const stripHtml = (html?: string): string | undefined => {
+  if (!html) return undefined;
+  const text = new DOMParser().parseFromString(html, 'text/html').body.textContent || '';
+  return text.replace(/\s+/g, ' ').trim() || undefined;
+};
+
+// RSS <enclosure>, Media RSS <media:content> (also nested in <media:group>) or Atom <link rel="enclosure">
+const findEnclosure = (item: Element): { url?: string; type?: string } => {
+  const groups = [item, ...childrenNamed(item, 'group')];
+  const candidates = [
+    ...childrenNamed(item, 'enclosure').map(el => ({ url: el.getAttribute('url'), type: el.getAttribute('type') })),
+    ...groups.flatMap(g => childrenNamed(g, 'content')).map(el => ({ url: el.getAttribute('url'), type: el.getAttribute('type') })),
+    ...childrenNamed(item, 'link')
+      .filter(el => el.getAttribute('rel') === 'enclosure')
+      .map(el => ({ url: el.getAttribute('href'), type: el.getAttribute('type') }))
+  ].filter(c => c.url);
+
+  // Prefer an actual media enclosure over artwork or transcripts
+  const media = candidates.find(c => !c.type || /^(video|audio)\//.test(c.type) || /mpegurl|dash/i.test(c.type)) || candidates[0];
+  return { url: media?.url || undefined, type: media?.type || undefined };
+};
+
+const findImage = (parent: Element): string | undefined => {
+  const thumbnail = childrenNamed(parent, 'thumbnail').map(el => el.getAttribute('url')).find(Boolean);
+  const itunes = childrenNamed(parent, 'image').map(el => el.getAttribute('href') || childText(el, 'url')).find(Boolean);
+  return thumbnail || itunes || childText(parent, 'logo') || childText(parent, 'icon') || undefined;
+};
+
+const toEntry = (item: Element, fallbackImage?: string): CatalogEntry => {
+  const enclosure = findEnclosure(item);
+  const published = childText(item, 'pubDate') || childText(item, 'published') || childText(item, 'updated');
+  const categories = childrenNamed(item, 'category').map(el => el.getAttribute('term') || el.textContent?.trim() || '').filter(Boolean);
+  return {
+    name: stripHtml(childText(item, 'title')),
+    url: enclosure.url,
+    type: enclosure.type,
+    thumbnail: findImage(item) || fallbackImage,
+    duration: childText(item, 'duration'),
+    description: stripHtml(childText(item, 'summary') || childText(item, 'description') || childText(item, 'content')),
+    tags: categories,
+    lastModified: published ? Date.parse(published) || undefined : undefined
+  };
+};
+
+// RSS 2.0 (including podcast feeds) and Atom
+export const parseFeed = (text: string, source: RemoteSource): SourceResult => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('Feed is not valid XML');
+
+  const root = doc.documentElement;
+  const channel = root.localName === 'rss' ? childrenNamed(root, 'channel')[0] : root;
+  if (!channel || (root.localName !== 'rss' && root.localName !== 'feed')) throw new Error('Not an RSS or Atom feed');
+
+  const items = childrenNamed(channel, root.localName === 'rss' ? 'item' : 'entry');
+  const name = source.name || stripHtml(childText(channel, 'title')) || new URL(source.url).hostname;
+  const entries = items.map(item => resolveEntryUrls(toEntry(item, findImage(channel)), source.url));
+  return collectEntries(entries, i => i + 1, 'rss', name);
+};
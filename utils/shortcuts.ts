@@ -0,0 +1,86 @@
+import { ShortcutAction, ShortcutBindings, ShortcutDefinition, ShortcutScope } from '../types';
+import { SHORTCUTS } from '../constants';
+
+const MODIFIERS = ['Ctrl', 'Alt', 'Shift', 'Meta'] as const;
+const MODIFIER_CODES = /^(Control|Alt|Shift|Meta|OS)(Left|Right)?$/;
+
+// Digit keys in the player always jump to a tenth of the duration
+const PERCENT_KEY = /^(?:Digit|Numpad)(\d)$/;
+
+// Punctuation sits on different physical keys per layout, so it's bound by the character typed, e.g. "Char:?"
+const CHAR_PREFIX = 'Char:';
+
+type ComboEvent = Pick<KeyboardEvent, 'key' | 'code' | 'ctrlKey' | 'altKey' | 'shiftKey' | 'metaKey' | 'getModifierState'>;
+
+const KEY_NAMES: Record<string, string> = {
+  Space: 'Space', ArrowLeft: '←', ArrowRight: '→', ArrowUp: '↑', ArrowDown: '↓',
+  Comma: ',', Period: '.', Slash: '/', Backslash: '\\', BracketLeft: '[', BracketRight: ']',
+  Semicolon: ';', Quote: "'", Backquote: '`', Minus: '-', Equal: '=', Escape: 'Esc', Enter: 'Enter'
+};
+
+// Physical key plus modifiers, e.g. "Shift+KeyN". Letters keep their place whatever the layout.
+export const eventCombo = (e: Pick<KeyboardEvent, 'code' | 'ctrlKey' | 'altKey' | 'shiftKey' | 'metaKey'>): string => {
+  const held = { Ctrl: e.ctrlKey, Alt: e.altKey, Shift: e.shiftKey, Meta: e.metaKey };
+  return [...MODIFIERS.filter(m => held[m]), e.code].join('+');
+};
+
+// The typed punctuation character, e.g. "Char:?". Shift and AltGr are part of typing it, so they're left out.
+export const charCombo = (e: ComboEvent): string | null => {
+  if (e.key.length !== 1 || /[\p{L}\p{N}\s]/u.test(e.key)) return null;
+  const altGraph = e.getModifierState('AltGraph');
+  const held = { Ctrl: e.ctrlKey && !altGraph, Alt: e.altKey && !altGraph, Shift: false, Meta: e.metaKey };
+  return [...MODIFIERS.filter(m => held[m]), `${CHAR_PREFIX}${e.key}`].join('+');
+};
+
+// What a newly pressed binding is saved as
+export const captureCombo = (e: ComboEvent): string => charCombo(e) ?? eventCombo(e);
+
+export const isModifierKey = (code: string): boolean => MODIFIER_CODES.test(code);
+
+export const formatCombo = (combo: string): string => combo.split(/\+(?!$)/).map(part => {
+  if (part.startsWith(CHAR_PREFIX)) return part.slice(CHAR_PREFIX.length);
+  if (KEY_NAMES[part]) return KEY_NAMES[part];
+  return part.replace(/^(Key|Digit|Numpad)/, '');
+}).join(' + ');
+
+// Text fields keep their keys; sliders and buttons still let shortcuts through
+export const isTypingTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return true;
+  return target instanceof HTMLInputElement && !['range', 'checkbox', 'radio', 'button', 'submit', 'file', 'color'].includes(target.type);
+};
+
+// 0 - 90 for an unmodified digit key, otherwise null. Layouts like AZERTY type digits with Shift.
+export const percentKey = (e: KeyboardEvent): number | null => {
+  const match = e.code.match(PERCENT_KEY);
+  if (!match || e.ctrlKey || e.altKey || e.metaKey || (e.shiftKey && !/^\d$/.test(e.key))) return null;
+  return parseInt(match[1], 10) * 10;
+};
+
+export const isReservedCombo = (combo: string, scope: ShortcutScope): boolean => scope !== 'library' && PERCENT_KEY.test(combo);
+
+export const resolveBindings = (overrides: ShortcutBindings = {}): Record<ShortcutAction, string[]> =>
+  Object.fromEntries(SHORTCUTS.map(s => [s.action, overrides[s.action] ?? s.keys])) as Record<ShortcutAction, string[]>;
+
+const scopesOverlap = (a: ShortcutScope, b: ShortcutScope): boolean => a === b || a === 'global' || b === 'global';
+
+// Bindings match either the physical key or the typed character
+export const matchShortcut = (e: KeyboardEvent, bindings: Record<ShortcutAction, string[]>, scope: ShortcutScope): ShortcutAction | undefined => {
+  const combos = [eventCombo(e), charCombo(e)];
+  return SHORTCUTS.find(s => scopesOverlap(s.scope, scope) && bindings[s.action].some(combo => combos.includes(combo)))?.action;
+};
+
+// Another action that fires for the same combo wherever `action` does
+export const findConflict = (bindings: Record<ShortcutAction, string[]>, action: ShortcutAction, combo: string): ShortcutDefinition | undefined => {
+  const scope = SHORTCUTS.find(s => s.action === action)!.scope;
+  return SHORTCUTS.find(s => s.action !== action && scopesOverlap(s.scope, scope) && bindings[s.action].includes(combo));
+};
+
+// Stores only what differs from the defaults
+export const withBinding = (overrides: ShortcutBindings, action: ShortcutAction, keys: string[]): ShortcutBindings => {
+  const rest = { ...overrides };
+  delete rest[action];
+  const defaults = SHORTCUTS.find(s => s.action === action)!.keys;
+  const isDefault = keys.length === defaults.length && keys.every(k => defaults.includes(k));
+  return isDefault ? rest : { ...rest, [action]: keys };
+};
@@ -0,0 +1,65 @@
+import { SourceCacheEntry, SourceResult } from '../types';
+import { SOURCE_CACHE_KEY, LEGACY_SOURCE_CACHE_KEYS } from '../constants';
+
+// FNV-1a, enough to tell whether a catalog body changed between fetches
+export const hashText = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16);
+};
+
+// Lets the browser revalidate with its stored ETag, and reports a version for change detection
+export const fetchVersioned = async (url: string): Promise<{ text: string; version: string; response: Response }> => {
+  const response = await fetch(url, { cache: 'no-cache' });
+  if (!response.ok) throw new Error(`Failed to fetch ${url} (${response.status})`);
+  const text = await response.text();
+  return { text, version: response.headers.get('etag') || hashText(text), response };
+};
+
+export const readSourceCache = (): Record<string, SourceCacheEntry> => {
+  LEGACY_SOURCE_CACHE_KEYS.forEach(key => localStorage.removeItem(key)); // Hold videos under old ids
+  try {
+    return JSON.parse(localStorage.getItem(SOURCE_CACHE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+// Callers pass only the configured sources, so removed ones drop out
+export const writeSourceCache = (entries: Record<string, SourceCacheEntry>) => {
+  try {
+    localStorage.setItem(SOURCE_CACHE_KEY, JSON.stringify(entries));
+  } catch (e) {
+    console.warn("Could not save the source cache", e);
+  }
+};
+
+export const isStale = (entry: SourceCacheEntry | undefined, ttlMinutes: number): boolean => {
+  return !entry || Date.now() - entry.checkedAt > ttlMinutes * 60 * 1000;
+};
+
+// A failed fetch keeps the last good videos and only records the error
+export const nextCacheEntry = (prev: SourceCacheEntry | undefined, signature: string, outcome: SourceResult | Error): SourceCacheEntry => {
+  const now = Date.now();
+  const usable = prev?.signature === signature ? prev : undefined;
+  if (outcome instanceof Error) {
+    return { signature, fetchedAt: usable?.fetchedAt || 0, checkedAt: now, version: usable?.version, videos: usable?.videos || [], skipped: usable?.skipped || [], error: outcome.message };
+  }
+  // Same body as last time, keep the cached videos so their dates and identity don't churn
+  if (usable && outcome.version && outcome.version === usable.version) {
+    return { ...usable, fetchedAt: now, checkedAt: now, error: undefined };
+  }
+  return { signature, fetchedAt: now, checkedAt: now, version: outcome.version, videos: outcome.videos, skipped: outcome.skipped };
+};
+
+export const formatAge = (timestamp: number): string => {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours} h ago`;
+  return `${Math.floor(hours / 24)} d ago`;
+};
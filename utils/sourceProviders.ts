@@ -0,0 +1,57 @@
+import { RemoteSource, RemoteSourceKind, SourceResult, GlobalSettings } from '../types';
+import { fetchSheetData } from './googleSheet';
+import { parseJsonCatalog } from './jsonCatalog';
+import { parseM3uPlaylist } from './m3u';
+import { parseFeed } from './rssFeed';
+import { fetchVersioned } from './sourceCache';
+
+type CatalogKind = Exclude<RemoteSourceKind, 'googlesheet'>;
+
+// One configured catalog, cached under its URL
+export interface CatalogSource {
+  url: string;
+  signature: string; // Settings that affect the parsed result
+  load: () => Promise<SourceResult>;
+}
+
+// Each provider turns the fetched body into videos, so it can be fed fixture text offline
+export const SOURCE_PARSERS: Record<CatalogKind, (text: string, source: RemoteSource) => SourceResult> = {
+  json: parseJsonCatalog,
+  m3u: parseM3uPlaylist,
+  rss: parseFeed
+};
+
+// Falls back to the extension, then to the body, when the source kind wasn't chosen
+export const sniffSourceKind = (url: string, text: string): CatalogKind => {
+  const path = url.split(/[?#]/)[0].toLowerCase();
+  if (/\.m3u8?$/.test(path)) return 'm3u';
+  if (path.endsWith('.json')) return 'json';
+  if (/\.(rss|atom|xml)$/.test(path)) return 'rss';
+
+  const body = text.replace(/^\uFEFF/, '').trimStart();
+  if (body.startsWith('#EXTM3U')) return 'm3u';
+  if (body.startsWith('{') || body.startsWith('[')) return 'json';
+  if (body.startsWith('<')) return 'rss';
+  throw new Error('Unrecognised catalog format');
+};
+
+export const fetchRemoteSource = async (source: RemoteSource): Promise<SourceResult> => {
+  const { text, version } = await fetchVersioned(source.url);
+  return { ...SOURCE_PARSERS[source.kind || sniffSourceKind(source.url, text)](text, source), version };
+};
+
+export const listCatalogSources = (settings: GlobalSettings): CatalogSource[] => [
+  ...settings.googleSheetUrls.map(url => {
+    const options = {
+      mapping: settings.sheetColumnMappings[url],
+      allTabs: settings.sheetAllTabs.includes(url),
+      apiKey: settings.googleApiKey || undefined
+    };
+    return { url, signature: JSON.stringify(options), load: () => fetchSheetData(url, options) };
+  }),
+  ...settings.remoteSources.map(source => ({
+    url: source.url,
+    signature: JSON.stringify([source.id, source.kind, source.name]),
+    load: () => fetchRemoteSource(source)
+  }))
+];
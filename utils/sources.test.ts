@@ -0,0 +1,74 @@
+// @vitest-environment jsdom
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { RemoteSource, SourceResult } from '../types';
+import { parseM3uPlaylist } from './m3u';
+import { parseJsonCatalog } from './jsonCatalog';
+import { parseFeed } from './rssFeed';
+
+// The fixtures as if served from this folder, so relative links resolve against it
+const BASE = 'https://example.org/fixtures/sources/';
+
+const parseFixture = (file: string, parse: (text: string, source: RemoteSource) => SourceResult): SourceResult =>
+  parse(readFileSync(`fixtures/sources/${file}`, 'utf8'), { id: 'fixture', url: `${BASE}${file}` });
+
+describe('M3U playlist', () => {
+  const { videos, skipped } = parseFixture('playlist.m3u', parseM3uPlaylist);
+
+  it('keeps playable entries and resolves relative links', () => {
+    expect(videos.map(v => [v.name, v.url])).toEqual([
+      ['Relative Channel', `${BASE}channels/news.m3u8`],
+      ['Absolute Name', 'https://example.com/videos/clip.mp4'],
+      ['Root Relative', 'https://example.org/streams/music.mp3'],
+      ['Untyped Link', 'https://example.com/watch?v=123']
+    ]);
+    expect(videos[0].thumbnail).toBe(`${BASE}logos/news.png`);
+    expect(videos[1].duration).toBe(120);
+  });
+
+  it('reads groups from group-title and #EXTGRP', () => {
+    expect(videos[0].tags).toEqual(['News']);
+    expect(videos[2].tags).toEqual(['Music']);
+  });
+
+  it('reports unsupported links with their line', () => {
+    expect(skipped).toEqual([{ row: 11, reason: 'Invalid URL "rtmp://example.com/live/stream"' }]);
+  });
+});
+
+describe('JSON catalog', () => {
+  const { videos, skipped } = parseFixture('catalog.json', parseJsonCatalog);
+
+  it('keeps playable entries and resolves relative links', () => {
+    expect(videos.map(v => [v.name, v.url])).toEqual([
+      ['Relative File', `${BASE}media/relative.mp4`],
+      ['Absolute Stream', 'https://example.com/live/index.m3u8'],
+      ['untitled.webm', 'https://example.org/root-relative/untitled.webm']
+    ]);
+    expect(videos[0]).toMatchObject({ thumbnail: `${BASE}images/relative.jpg`, duration: 90, tags: ['Samples', 'Relative'] });
+    expect(videos[0].subtitles?.[0].url).toBe(`${BASE}media/relative.vtt`);
+    expect(videos[1].chapters?.map(c => [c.time, c.label])).toEqual([[0, 'Start'], [60, 'Middle']]);
+  });
+
+  it('reports entries without a usable URL', () => {
+    expect(skipped.map(issue => issue.row)).toEqual([4, 5, 6]);
+  });
+});
+
+describe('RSS feed', () => {
+  const { videos, skipped } = parseFixture('feed.xml', parseFeed);
+
+  it('keeps entries with media and resolves relative links', () => {
+    expect(videos.map(v => [v.name, v.url])).toEqual([
+      ['Relative Enclosure', `${BASE}episodes/ep1.mp3`],
+      ['Media Group Entry', 'https://example.com/episodes/ep2.mp4'],
+      ['untitled.m4a', `${BASE}episodes/untitled.m4a`]
+    ]);
+    expect(videos[0]).toMatchObject({ thumbnail: `${BASE}artwork/show.jpg`, duration: 754, tags: ['Episodes'] });
+    expect(videos[1].thumbnail).toBe(`${BASE}thumbs/ep2.jpg`);
+  });
+
+  it('reports items without an enclosure', () => {
+    expect(skipped).toEqual([{ row: 3, reason: 'Missing URL' }]);
+  });
+});
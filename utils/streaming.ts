@@ -0,0 +1,160 @@
+import { StreamQuality } from '../types';
+import { HLS_MIME_TYPE, DASH_MIME_TYPE, HLS_CONTENT_TYPES, AUTO_QUALITY, MEDIA_EXTENSION_TYPES } from '../constants';
+
+export type StreamKind = 'hls' | 'dash' | 'progressive';
+
+export interface StreamHandlers {
+  onQualities: (qualities: StreamQuality[]) => void;
+  onQualityChange: (index: number) => void;
+  onError: (message: string) => void;
+}
+
+export interface StreamController {
+  setQuality: (index: number) => void;
+  destroy: () => void;
+}
+
+const extensionOf = (url: string): string => {
+  try {
+    return new URL(url, window.location.href).pathname.split('.').pop()?.toLowerCase() || '';
+  } catch {
+    return url.split(/[?#]/)[0].split('.').pop()?.toLowerCase() || '';
+  }
+};
+
+export const detectStreamKind = (url: string, contentType?: string): StreamKind => {
+  const type = (contentType || '').split(';')[0].trim().toLowerCase();
+  if (HLS_CONTENT_TYPES.includes(type) || type === HLS_MIME_TYPE.toLowerCase()) return 'hls';
+  if (type === DASH_MIME_TYPE) return 'dash';
+
+  const ext = extensionOf(url);
+  if (ext === 'm3u8') return 'hls';
+  if (ext === 'mpd') return 'dash';
+  return 'progressive';
+};
+
+export const guessStreamMimeType = (url: string): string => {
+  const kind = detectStreamKind(url);
+  if (kind === 'hls') return HLS_MIME_TYPE;
+  if (kind === 'dash') return DASH_MIME_TYPE;
+  return MEDIA_EXTENSION_TYPES[extensionOf(url)] || 'video/mp4';
+};
+
+// URLs without an extension can still be manifests, so ask the server when it allows us to
+export const probeStreamMimeType = async (url: string): Promise<string> => {
+  const guessed = guessStreamMimeType(url);
+  if (detectStreamKind(url) !== 'progressive') return guessed;
+
+  try {
+    const response = await fetch(url, { method: 'HEAD' });
+    const contentType = response.headers.get('content-type');
+    if (!response.ok || !contentType) return guessed;
+    const kind = detectStreamKind(url, contentType);
+    if (kind === 'hls') return HLS_MIME_TYPE;
+    if (kind === 'dash') return DASH_MIME_TYPE;
+    return contentType.startsWith('video/') || contentType.startsWith('audio/') ? contentType.split(';')[0] : guessed;
+  } catch {
+    return guessed; // CORS or network failure, the URL is all we have
+  }
+};
+
+const qualityLabel = (height: number | undefined, bitrate: number): string => {
+  if (height) return `${height}p`;
+  return `${Math.round(bitrate / 1000)} kbps`;
+};
+
+const attachHls = async (video: HTMLVideoElement, url: string, handlers: StreamHandlers): Promise<StreamController> => {
+  const { default: Hls } = await import('hls.js');
+
+  if (!Hls.isSupported()) {
+    // Safari plays HLS natively but exposes no rendition control
+    if (video.canPlayType('application/vnd.apple.mpegurl')) {
+      video.src = url;
+      return {
+        setQuality: () => {},
+        destroy: () => { video.removeAttribute('src'); video.load(); }
+      };
+    }
+    throw new Error('HLS is not supported in this browser');
+  }
+
+  const hls = new Hls();
+  let recoveredMedia = false;
+
+  hls.on(Hls.Events.MANIFEST_PARSED, () => {
+    handlers.onQualities(hls.levels.map((level, index) => ({
+      index,
+      height: level.height || undefined,
+      bitrate: level.bitrate,
+      label: qualityLabel(level.height, level.bitrate),
+      frameRate: level.frameRate || undefined
+    })));
+  });
+  hls.on(Hls.Events.LEVEL_SWITCHED, (_, data) => handlers.onQualityChange(data.level));
+  hls.on(Hls.Events.ERROR, (_, data) => {
+    if (!data.fatal) return;
+    if (data.type === Hls.ErrorTypes.MEDIA_ERROR && !recoveredMedia) {
+      recoveredMedia = true;
+      hls.recoverMediaError();
+      return;
+    }
+    handlers.onError(data.details || 'Stream Error');
+  });
+
+  hls.loadSource(url);
+  hls.attachMedia(video);
+
+  return {
+    setQuality: (index) => { hls.currentLevel = index; },
+    destroy: () => hls.destroy()
+  };
+};
+
+const attachDash = async (video: HTMLVideoElement, url: string, handlers: StreamHandlers): Promise<StreamController> => {
+  const dashjs = await import('dashjs');
+  if (!dashjs.supportsMediaSource()) throw new Error('DASH is not supported in this browser');
+
+  const player = dashjs.MediaPlayer().create();
+  const events = dashjs.MediaPlayer.events;
+
+  player.on(events.STREAM_INITIALIZED, () => {
+    handlers.onQualities(player.getRepresentationsByType('video').map((rep, index) => ({
+      index,
+      height: rep.height || undefined,
+      bitrate: rep.bandwidth,
+      label: qualityLabel(rep.height, rep.bandwidth),
+      frameRate: rep.frameRate || undefined
+    })));
+  });
+  player.on(events.QUALITY_CHANGE_RENDERED, (e) => {
+    if (e.mediaType === 'video' && e.newRepresentation) {
+      const reps = player.getRepresentationsByType('video');
+      handlers.onQualityChange(reps.findIndex(r => r.id === e.newRepresentation.id));
+    }
+  });
+  player.on(events.ERROR, (e) => {
+    const error = (e as { error?: { message?: string } }).error;
+    handlers.onError(error?.message || 'Stream Error');
+  });
+
+  player.initialize(video, url, false, 0);
+
+  return {
+    setQuality: (index) => {
+      const auto = index === AUTO_QUALITY;
+      player.updateSettings({ streaming: { abr: { autoSwitchBitrate: { video: auto } } } } as Parameters<typeof player.updateSettings>[0]);
+      if (!auto) player.setRepresentationForTypeByIndex('video', index, true);
+    },
+    destroy: () => player.destroy()
+  };
+};
+
+// Plays HLS/DASH manifests through Media Source Extensions
+export const attachAdaptiveStream = (
+  video: HTMLVideoElement,
+  url: string,
+  kind: Exclude<StreamKind, 'progressive'>,
+  handlers: StreamHandlers
+): Promise<StreamController> => {
+  return kind === 'hls' ? attachHls(video, url, handlers) : attachDash(video, url, handlers);
+};
@@ -0,0 +1,98 @@
+import { SubtitleCue, SubtitleTrack } from '../types';
+import { idbGet, idbPut, idbDelete, idbClear, idbRekey } from './idb';
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+interface SavedSubtitles {
+  id: string; // Video id
+  tracks: SubtitleTrack[];
+}
+
+// Parses "hh:mm:ss,mmm", "hh:mm:ss.mmm" or "mm:ss.mmm" into seconds
+export const parseTimestamp = (value: string): number | null => {
+  const match = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[.,](\d{1,3}))?$/);
+  if (!match) return null;
+  const [, h, m, s, ms] = match;
+  return (parseInt(h || '0', 10) * 3600) +
+    (parseInt(m, 10) * 60) +
+    parseInt(s, 10) +
+    (ms ? parseInt(ms.padEnd(3, '0'), 10) / 1000 : 0);
+};
+
+// Strips markup we don't render (<i>, <c.yellow>, ASS-style {\an8} overrides)
+const cleanCueText = (lines: string[]): string => {
+  return lines
+    .join('\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/\{\\[^}]*\}/g, '')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&nbsp;/g, ' ')
+    .trim();
+};
+
+// Both formats share the "start --> end" timing line, so one block parser covers them
+const parseBlocks = (text: string): SubtitleCue[] => {
+  const blocks = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split(/\n{2,}/);
+  const cues: SubtitleCue[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(l => l.includes('-->'));
+    if (timingIndex === -1) continue; // Header, NOTE, STYLE or REGION block
+
+    const [startRaw, rest] = lines[timingIndex].split('-->');
+    const endRaw = rest.trim().split(/\s+/)[0]; // Drop VTT cue settings
+    const start = parseTimestamp(startRaw);
+    const end = parseTimestamp(endRaw);
+    if (start === null || end === null || end <= start) continue;
+
+    const cueText = cleanCueText(lines.slice(timingIndex + 1));
+    if (cueText) cues.push({ start, end, text: cueText });
+  }
+
+  return cues.sort((a, b) => a.start - b.start);
+};
+
+export const parseSrt = (text: string): SubtitleCue[] => parseBlocks(text);
+
+export const parseVtt = (text: string): SubtitleCue[] => {
+  if (!text.replace(/^\uFEFF/, '').trimStart().startsWith('WEBVTT')) {
+    throw new Error('Invalid WebVTT file');
+  }
+  return parseBlocks(text);
+};
+
+export const detectSubtitleFormat = (fileName: string, text: string): SubtitleFormat => {
+  if (/\.vtt$/i.test(fileName)) return 'vtt';
+  if (/\.srt$/i.test(fileName)) return 'srt';
+  return text.replace(/^\uFEFF/, '').trimStart().startsWith('WEBVTT') ? 'vtt' : 'srt';
+};
+
+export const parseSubtitles = (text: string, fileName: string): SubtitleCue[] => {
+  return detectSubtitleFormat(fileName, text) === 'vtt' ? parseVtt(text) : parseSrt(text);
+};
+
+// Cues are sorted by start, so we can stop as soon as we pass the current time
+export const getActiveCues = (cues: SubtitleCue[], time: number): SubtitleCue[] => {
+  const active: SubtitleCue[] = [];
+  for (const cue of cues) {
+    if (cue.start > time) break;
+    if (cue.end > time) active.push(cue);
+  }
+  return active;
+};
+
+// Side-loaded files can't be fetched again, so their cues are kept per video. Remote tracks are left out.
+export const loadSavedSubtitles = async (videoId: string): Promise<SubtitleTrack[]> =>
+  (await idbGet<SavedSubtitles>('subtitles', videoId))?.tracks ?? [];
+
+export const saveSubtitles = (videoId: string, tracks: SubtitleTrack[]): Promise<void> =>
+  idbPut<SavedSubtitles>('subtitles', { id: videoId, tracks: tracks.filter(t => !t.url) });
+
+export const removeSavedSubtitles = (videoId: string): Promise<void> => idbDelete('subtitles', videoId);
+
+export const rekeySavedSubtitles = (from: string, to: string): Promise<boolean> => idbRekey('subtitles', from, to);
+
+export const clearSavedSubtitles = (): Promise<void> => idbClear('subtitles');
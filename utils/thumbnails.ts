@@ -0,0 +1,192 @@
+import { VideoFile, Storyboard } from '../types';
+import {
+  THUMBNAIL_WIDTH, THUMBNAIL_HEIGHT,
+  STORYBOARD_FRAME_WIDTH, STORYBOARD_FRAME_HEIGHT, STORYBOARD_COLUMNS, STORYBOARD_MAX_FRAMES, STORYBOARD_MIN_INTERVAL
+} from '../constants';
+import { idbGet, idbPut, idbDelete, idbClear, idbRekey } from './idb';
+
+interface CachedThumbnail {
+  id: string;
+  dataUrl: string;
+}
+
+// Sheet rows without artwork and bare network streams can't be decoded into a canvas
+export const canCaptureFrames = (video: VideoFile): boolean => {
+  if (video.type.startsWith('audio')) return false;
+  if (video.sourceType === 'googlesheet') return false;
+  return video.size > 0 || video.sourceType === 'local';
+};
+
+// A stalled file or seek would otherwise hold up every job queued behind it
+const LOAD_TIMEOUT = 20000;
+const SEEK_TIMEOUT = 5000;
+
+const loadMedia = (url: string): Promise<HTMLVideoElement> => new Promise((resolve, reject) => {
+  const v = document.createElement('video');
+  const fail = (message: string) => {
+    clearTimeout(timer);
+    release(v);
+    reject(new Error(message));
+  };
+  const timer = setTimeout(() => fail('Timed out loading media'), LOAD_TIMEOUT);
+  v.crossOrigin = 'anonymous';
+  v.muted = true;
+  v.preload = 'auto';
+  v.onloadeddata = () => {
+    clearTimeout(timer);
+    resolve(v);
+  };
+  v.onerror = () => fail('Could not load media');
+  v.src = url;
+});
+
+const seekTo = (v: HTMLVideoElement, time: number): Promise<void> => new Promise((resolve, reject) => {
+  const timer = setTimeout(() => reject(new Error('Seek timed out')), SEEK_TIMEOUT);
+  v.onseeked = () => {
+    clearTimeout(timer);
+    resolve();
+  };
+  v.onerror = () => {
+    clearTimeout(timer);
+    reject(new Error('Seek failed'));
+  };
+  v.currentTime = time;
+});
+
+const release = (v: HTMLVideoElement) => {
+  v.onloadeddata = v.onseeked = v.onerror = null;
+  v.removeAttribute('src');
+  v.load();
+};
+
+// Every job decodes through its own hidden <video>, so run them one at a time
+const serial = () => {
+  let tail: Promise<unknown> = Promise.resolve();
+  return <T,>(task: () => Promise<T>): Promise<T> => {
+    const result = tail.then(task);
+    tail = result.catch(() => undefined);
+    return result;
+  };
+};
+const thumbnailJobs = serial();
+const storyboardJobs = serial();
+
+// Shares one in-flight job between callers asking for the same thing
+const inFlight = new Map<string, Promise<unknown>>();
+const once = <T,>(key: string, task: () => Promise<T>): Promise<T> => {
+  const existing = inFlight.get(key) as Promise<T> | undefined;
+  if (existing) return existing;
+  const job = task().finally(() => inFlight.delete(key));
+  inFlight.set(key, job);
+  return job;
+};
+
+const captureThumbnail = async (url: string): Promise<string | null> => {
+  const v = await loadMedia(url);
+  try {
+    await seekTo(v, Math.min(5, (v.duration || 0) / 2));
+    const canvas = document.createElement('canvas');
+    canvas.width = THUMBNAIL_WIDTH;
+    canvas.height = THUMBNAIL_HEIGHT;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+    ctx.drawImage(v, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.7); // Throws for cross-origin media without CORS
+  } finally {
+    release(v);
+  }
+};
+
+export const getThumbnail = (video: VideoFile): Promise<string | null> => once(`thumbnail-${video.id}`, async () => {
+  try {
+    const cached = await idbGet<CachedThumbnail>('thumbnails', video.id);
+    if (cached) return cached.dataUrl;
+  } catch (e) {
+    console.warn("Thumbnail cache unavailable", e);
+  }
+
+  try {
+    const dataUrl = await thumbnailJobs(() => captureThumbnail(video.url));
+    if (dataUrl) idbPut<CachedThumbnail>('thumbnails', { id: video.id, dataUrl }).catch(e => console.warn("Could not cache thumbnail", e));
+    return dataUrl;
+  } catch {
+    return null;
+  }
+});
+
+export const loadStoryboard = (id: string): Promise<Storyboard | undefined> => idbGet<Storyboard>('storyboards', id);
+
+const captureStoryboard = async (video: VideoFile): Promise<Storyboard | undefined> => {
+  const v = await loadMedia(video.url);
+  try {
+    const duration = v.duration;
+    if (!isFinite(duration) || duration <= 0) return undefined;
+
+    const interval = Math.max(STORYBOARD_MIN_INTERVAL, duration / STORYBOARD_MAX_FRAMES);
+    const count = Math.max(1, Math.floor(duration / interval));
+    const canvas = document.createElement('canvas');
+    canvas.width = STORYBOARD_COLUMNS * STORYBOARD_FRAME_WIDTH;
+    canvas.height = Math.ceil(count / STORYBOARD_COLUMNS) * STORYBOARD_FRAME_HEIGHT;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return undefined;
+
+    for (let i = 0; i < count; i++) {
+      await seekTo(v, i * interval);
+      const x = (i % STORYBOARD_COLUMNS) * STORYBOARD_FRAME_WIDTH;
+      const y = Math.floor(i / STORYBOARD_COLUMNS) * STORYBOARD_FRAME_HEIGHT;
+      ctx.drawImage(v, x, y, STORYBOARD_FRAME_WIDTH, STORYBOARD_FRAME_HEIGHT);
+    }
+
+    const sprite = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.6));
+    if (!sprite) return undefined;
+    return {
+      id: video.id,
+      sprite,
+      columns: STORYBOARD_COLUMNS,
+      count,
+      interval,
+      frameWidth: STORYBOARD_FRAME_WIDTH,
+      frameHeight: STORYBOARD_FRAME_HEIGHT
+    };
+  } finally {
+    release(v);
+  }
+};
+
+// Returns the stored storyboard, building and caching it first if needed
+export const buildStoryboard = (video: VideoFile): Promise<Storyboard | undefined> => once(`storyboard-${video.id}`, async () => {
+  const existing = await loadStoryboard(video.id);
+  if (existing) return existing;
+
+  const storyboard = await storyboardJobs(() => captureStoryboard(video));
+  if (storyboard) await idbPut('storyboards', storyboard);
+  return storyboard;
+});
+
+// Pixel offset of the frame closest to `time` inside the sprite
+export const storyboardFrameAt = (storyboard: Storyboard, time: number): { x: number; y: number } => {
+  const index = Math.min(storyboard.count - 1, Math.max(0, Math.floor(time / storyboard.interval)));
+  return {
+    x: (index % storyboard.columns) * storyboard.frameWidth,
+    y: Math.floor(index / storyboard.columns) * storyboard.frameHeight
+  };
+};
+
+export const removeCachedFrames = async (id: string): Promise<void> => {
+  await idbDelete('thumbnails', id);
+  await idbDelete('storyboards', id);
+  await idbDelete('waveforms', id);
+};
+
+// For a video whose id changed, so its cached frames and waveform aren't orphaned
+export const rekeyCachedFrames = async (from: string, to: string): Promise<void> => {
+  await idbRekey('thumbnails', from, to);
+  await idbRekey('storyboards', from, to);
+  await idbRekey('waveforms', from, to);
+};
+
+export const clearCachedFrames = async (): Promise<void> => {
+  await idbClear('thumbnails');
+  await idbClear('storyboards');
+  await idbClear('waveforms');
+};
@@ -1,3 +1,5 @@
+import { TimeDisplay } from '../types';
+
 export const formatTime = (seconds: number): string => {
   if (isNaN(seconds)) return '00:00';
   
@@ -9,4 +11,32 @@ export const formatTime = (seconds: number): string => {
     return `${h}:${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
   }
   return `${m.toString().padStart(2, '0')}:${s.toString().padStart(2, '0')}`;
-};
\ No newline at end of file
+};
+
+// formatTime plus milliseconds, e.g. "01:02.345"
+export const formatPreciseTime = (seconds: number): string => {
+  if (isNaN(seconds)) return '00:00.000';
+  const ms = Math.round(seconds * 1000);
+  return `${formatTime(Math.floor(ms / 1000))}.${(ms % 1000).toString().padStart(3, '0')}`;
+};
+
+// Index of the frame showing at `seconds`, the small offset absorbs float error at exact frame boundaries
+export const frameAt = (seconds: number, fps: number): number => Math.floor(seconds * fps + 1e-3);
+
+export const formatTimeAs = (seconds: number, display: TimeDisplay, fps: number): string => {
+  if (display === 'milliseconds') return formatPreciseTime(seconds);
+  if (display === 'frames') return isNaN(seconds) ? '0' : String(frameAt(seconds, fps));
+  return formatTime(seconds);
+};
+
+// "hh:mm:ss.mmm", "mm:ss", "ss.mmm" or plain seconds; null when it doesn't parse
+export const parseTimeInput = (value: string): number | null => {
+  const match = value.trim().match(/^(?:(?:(\d+):)?(\d+):)?(\d+)(?:[.,](\d{1,3}))?$/);
+  if (!match) return null;
+  const [, h, m, s, ms] = match;
+  if ((h !== undefined || m !== undefined) && (parseInt(s, 10) > 59 || (h !== undefined && parseInt(m, 10) > 59))) return null;
+  return (parseInt(h || '0', 10) * 3600) +
+    (parseInt(m || '0', 10) * 60) +
+    parseInt(s, 10) +
+    (ms ? parseInt(ms.padEnd(3, '0'), 10) / 1000 : 0);
+};
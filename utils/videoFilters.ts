@@ -0,0 +1,35 @@
+import { VideoAdjustments, CropInsets } from '../types';
+import { DEFAULT_VIDEO_ADJUSTMENTS } from '../constants';
+
+export const isAdjusted = (a: VideoAdjustments): boolean =>
+  JSON.stringify(a) !== JSON.stringify(DEFAULT_VIDEO_ADJUSTMENTS);
+
+// CSS has no gamma or sharpen function, those two go through an inline SVG filter
+export const needsSvgFilter = (a: VideoAdjustments): boolean => a.gamma !== 1 || a.sharpen > 0;
+
+// Leave out `svgFilterId` where SVG references don't apply, e.g. a canvas context
+export const cssFilter = (a: VideoAdjustments, brightness: number, svgFilterId?: string): string => [
+  svgFilterId && needsSvgFilter(a) ? `url(#${svgFilterId})` : '',
+  `brightness(${brightness})`,
+  a.contrast !== 1 ? `contrast(${a.contrast})` : '',
+  a.saturation !== 1 ? `saturate(${a.saturation})` : '',
+  a.hue !== 0 ? `hue-rotate(${a.hue}deg)` : '',
+  a.grayscale > 0 ? `grayscale(${a.grayscale})` : '',
+  a.sepia > 0 ? `sepia(${a.sepia})` : ''
+].filter(Boolean).join(' ');
+
+export const mirrorTransform = (a: VideoAdjustments): string =>
+  [a.mirrorX ? 'scaleX(-1)' : '', a.mirrorY ? 'scaleY(-1)' : ''].filter(Boolean).join(' ');
+
+// The clip is applied before the mirror transform, so edges swap to stay where the viewer sees them
+export const cropClipPath = (a: VideoAdjustments): string | undefined => {
+  const { top, right, bottom, left }: CropInsets = a.crop;
+  if (!top && !right && !bottom && !left) return undefined;
+  const [t, b] = a.mirrorY ? [bottom, top] : [top, bottom];
+  const [l, r] = a.mirrorX ? [right, left] : [left, right];
+  return `inset(${t}% ${r}% ${b}% ${l}%)`;
+};
+
+// 3x3 sharpening kernel for feConvolveMatrix, its weights always sum to 1 so brightness is kept
+export const sharpenKernel = (amount: number): string =>
+  [0, -amount, 0, -amount, 1 + 4 * amount, -amount, 0, -amount, 0].join(' ');
@@ -0,0 +1,84 @@
+import { VideoFile } from '../types';
+
+const normalizeUrl = (url: string): string => {
+  const trimmed = url.trim();
+  try {
+    const parsed = new URL(trimmed);
+    parsed.hash = '';
+    return parsed.href;
+  } catch {
+    return trimmed; // Not absolute, kept as given
+  }
+};
+
+const fileSignature = (file: { name: string; size: number; lastModified: number }): string =>
+  `${file.name}|${file.size}|${file.lastModified}`;
+
+// Remote media is identified by its URL, so row order and re-adding the same link don't matter.
+// The URL itself is the id, so two ids are equal only for the same link.
+export const urlVideoId = (url: string): string => `url-${normalizeUrl(url)}`;
+
+// The same file imported twice, from any folder, is the same video
+export const localVideoId = (file: { name: string; size: number; lastModified: number }): string => `file-${fileSignature(file)}`;
+
+// Imported files used to be keyed by name and modification time, e.g. in favorites and progress
+export const legacyLocalVideoId = (file: { name: string; lastModified: number }): string => `${file.name}-${file.lastModified}`;
+
+// Remote videos stored with an older id move to their URL id
+const migrateVideoIds = (videos: VideoFile[]): VideoFile[] => {
+  if (videos.every(v => v.sourceType === 'local' || v.id === urlVideoId(v.url))) return videos;
+  return videos.map(video => {
+    if (video.sourceType === 'local') return video;
+    const id = urlVideoId(video.url);
+    return video.id === id ? video : { ...video, id, legacyIds: [...(video.legacyIds || []), video.id] };
+  });
+};
+
+// Fills fields the first copy lacks from the second, e.g. a sheet thumbnail for a JSON catalog entry
+const mergeVideo = (primary: VideoFile, duplicate: VideoFile): VideoFile => {
+  const merged = { ...primary };
+  (Object.keys(duplicate) as (keyof VideoFile)[]).forEach(key => {
+    if (merged[key] === undefined) (merged as Record<string, unknown>)[key] = duplicate[key];
+  });
+  merged.legacyIds = [...(primary.legacyIds || []), ...(duplicate.legacyIds || [])];
+  if (merged.legacyIds.length === 0) delete merged.legacyIds;
+  return merged;
+};
+
+// Earlier sources win, so local files come before streams and streams before catalogs.
+// Ids are the normalized URL or file signature, so only real duplicates share one.
+export const mergeDuplicates = (videos: VideoFile[]): VideoFile[] => {
+  const byId = new Map<string, VideoFile>();
+  videos.forEach(video => {
+    const existing = byId.get(video.id);
+    byId.set(video.id, existing ? mergeVideo(existing, video) : video);
+  });
+  return Array.from(byId.values());
+};
+
+// Old sheet-row, stream or file id -> content id
+export const legacyIdMap = (videos: VideoFile[]): Map<string, string> => {
+  const renames = new Map<string, string>();
+  videos.forEach(v => v.legacyIds?.forEach(old => { if (old !== v.id) renames.set(old, v.id); }));
+  return renames;
+};
+
+// Both return the input unchanged when nothing was renamed, so state setters can bail out
+export const rekeyIds = (ids: string[], renames: Map<string, string>): string[] => {
+  if (!ids.some(id => renames.has(id))) return ids;
+  return Array.from(new Set(ids.map(id => renames.get(id) || id)));
+};
+
+export const rekeyRecord = <T>(record: Record<string, T>, renames: Map<string, string>): Record<string, T> => {
+  if (!Object.keys(record).some(id => renames.has(id))) return record;
+  const result: Record<string, T> = {};
+  Object.entries(record).forEach(([id, value]) => {
+    const target = renames.get(id) || id;
+    // Data already saved under the new id is newer than what the old id held
+    if (!(target in result) || !renames.has(id)) result[target] = value;
+  });
+  return result;
+};
+
+// Streams used to be saved as "stream-<timestamp>", so the same link could be saved twice
+export const migrateSavedStreams = (streams: VideoFile[]): VideoFile[] => mergeDuplicates(migrateVideoIds(streams));
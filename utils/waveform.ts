@@ -0,0 +1,92 @@
+import { VideoFile, AudioAnalysis } from '../types';
+import { WAVEFORM_BARS, WAVEFORM_SAMPLE_RATE, WAVEFORM_MAX_BYTES } from '../constants';
+import { idbGet, idbPut } from './idb';
+import { readId3Tags } from './id3';
+
+export const isAudioFile = (video: VideoFile): boolean => video.type.startsWith('audio');
+
+// The whole file has to be decoded, so only local files and offline copies (blob URLs) get a waveform.
+// Remote and live audio would have to be downloaded in full, or never finish.
+export const canAnalyzeAudio = (video: VideoFile): boolean =>
+  isAudioFile(video) && video.url.startsWith('blob:') && video.size <= WAVEFORM_MAX_BYTES;
+
+export const loadAudioAnalysis = (id: string): Promise<AudioAnalysis | undefined> => idbGet<AudioAnalysis>('waveforms', id);
+
+// Loudest sample of each slice across all channels, scaled so the loudest bar is 1
+export const computePeaks = (buffer: AudioBuffer, bars: number): number[] => {
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+  const slice = buffer.length / bars;
+  const peaks = Array.from({ length: bars }, (_, bar) => {
+    let peak = 0;
+    for (let i = Math.floor(bar * slice); i < Math.floor((bar + 1) * slice); i++) {
+      for (const data of channels) peak = Math.max(peak, Math.abs(data[i]));
+    }
+    return peak;
+  });
+  const loudest = Math.max(...peaks) || 1;
+  return peaks.map(p => Math.round((p / loudest) * 100) / 100);
+};
+
+// Reads at most WAVEFORM_MAX_BYTES, whatever the headers claim
+const readAudio = async (url: string): Promise<ArrayBuffer> => {
+  const controller = new AbortController();
+  const response = await fetch(url, { signal: controller.signal });
+  if (!response.ok) throw new Error(`Audio request failed (${response.status})`);
+  const tooLarge = new Error('Audio file is too large to analyse');
+  if (Number(response.headers.get('content-length')) > WAVEFORM_MAX_BYTES) {
+    controller.abort();
+    throw tooLarge;
+  }
+  if (!response.body) return response.arrayBuffer();
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.length;
+    if (total > WAVEFORM_MAX_BYTES) {
+      controller.abort();
+      throw tooLarge;
+    }
+    chunks.push(value);
+  }
+  const data = new Uint8Array(total);
+  let offset = 0;
+  chunks.forEach(chunk => { data.set(chunk, offset); offset += chunk.length; });
+  return data.buffer;
+};
+
+const analyze = async (video: VideoFile): Promise<AudioAnalysis> => {
+  const data = await readAudio(video.url);
+  const tags = readId3Tags(new Uint8Array(data));
+  // decodeAudioData detaches the buffer, and resamples to the context's rate
+  const context = new OfflineAudioContext(1, 1, WAVEFORM_SAMPLE_RATE);
+  const buffer = await context.decodeAudioData(data);
+  return { id: video.id, peaks: computePeaks(buffer, WAVEFORM_BARS), ...tags };
+};
+
+const inFlight = new Map<string, Promise<AudioAnalysis | undefined>>();
+
+// Returns the stored analysis, decoding and caching it first if needed
+export const analyzeAudio = (video: VideoFile): Promise<AudioAnalysis | undefined> => {
+  const existing = inFlight.get(video.id);
+  if (existing) return existing;
+
+  const job = (async () => {
+    const cached = await loadAudioAnalysis(video.id).catch(() => undefined);
+    if (cached) return cached;
+    if (!canAnalyzeAudio(video)) return undefined;
+    try {
+      const analysis = await analyze(video);
+      idbPut('waveforms', analysis).catch(e => console.warn("Could not cache waveform", e));
+      return analysis;
+    } catch (e) {
+      console.warn("Could not analyse audio", e);
+      return undefined;
+    }
+  })().finally(() => inFlight.delete(video.id));
+  inFlight.set(video.id, job);
+  return job;
+};
@@ -1,6 +1,14 @@
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
+import { VitePWA } from 'vite-plugin-pwa';
+import { SUPPORTED_MIME_TYPES, MEDIA_EXTENSION_TYPES } from './constants';
+
+// { 'video/mp4': ['.mp4', '.m4v'], ... } for the OS "Open with" registration
+const mediaFileTypes = SUPPORTED_MIME_TYPES.reduce<Record<string, string[]>>((accept, type) => {
+  accept[type] = Object.keys(MEDIA_EXTENSION_TYPES).filter(ext => MEDIA_EXTENSION_TYPES[ext] === type).map(ext => `.${ext}`);
+  return accept;
+}, {});
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
@@ -9,7 +17,49 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [
+        react(),
+        VitePWA({
+          registerType: 'prompt',
+          includeAssets: ['icon.svg', 'apple-touch-icon.png'],
+          manifest: {
+            name: 'Affiplayer',
+            short_name: 'Affiplayer',
+            description: 'Video and audio player with gesture controls, playlists and offline playback',
+            theme_color: '#121212',
+            background_color: '#121212',
+            display: 'standalone',
+            orientation: 'any',
+            start_url: '/',
+            icons: [
+              { src: 'pwa-192x192.png', sizes: '192x192', type: 'image/png' },
+              { src: 'pwa-512x512.png', sizes: '512x512', type: 'image/png' },
+              { src: 'maskable-icon-512x512.png', sizes: '512x512', type: 'image/png', purpose: 'maskable' }
+            ],
+            file_handlers: [{ action: '/', accept: mediaFileTypes }],
+            // Handled by public/share-target-sw.js, which hands the files to the app through a cache
+            share_target: {
+              action: '/share-target',
+              method: 'POST',
+              enctype: 'multipart/form-data',
+              params: {
+                title: 'title',
+                text: 'text',
+                url: 'url',
+                files: [{ name: 'media', accept: [...SUPPORTED_MIME_TYPES, ...Object.values(mediaFileTypes).flat()] }]
+              }
+            },
+            launch_handler: { client_mode: 'focus-existing' }
+          },
+          workbox: {
+            // The app shell only: media, catalogs and downloads go to the network or IndexedDB
+            globPatterns: ['**/*.{js,css,html,svg,png,woff2}'],
+            navigateFallback: 'index.html',
+            importScripts: ['share-target-sw.js'],
+            maximumFileSizeToCacheInBytes: 5 * 1024 * 1024 // dash.js alone is close to the 2 MB default
+          }
+        })
+      ],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)